@@ -61,15 +61,17 @@ async function main() {
   // Create mock connection (for demo purposes - tokens are fake)
   const connection = await prisma.connection.upsert({
     where: {
-      organizationId_provider: {
+      organizationId_provider_providerAccountId: {
         organizationId: organization.id,
         provider: 'GOOGLE_ADS',
+        providerAccountId: 'demo-google-user',
       },
     },
     update: {},
     create: {
       organizationId: organization.id,
       provider: 'GOOGLE_ADS',
+      providerAccountId: 'demo-google-user',
       providerEmail: 'ads@example.com',
       accessTokenEnc: 'demo-access-token-encrypted',
       refreshTokenEnc: 'demo-refresh-token-encrypted',
@@ -164,6 +166,7 @@ async function main() {
             date,
             provider: 'GOOGLE_ADS',
             adAccountId: account.id,
+            grain: 'CAMPAIGN',
             campaignId: campaign.id,
             impressions: BigInt(baseImpressions),
             clicks: BigInt(baseClicks),
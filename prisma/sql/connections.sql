@@ -0,0 +1,41 @@
+-- Schema adjustments for connections that Prisma cannot express.
+-- Run after `prisma db push`:
+--
+--   npm run db:constraints
+
+-- 1. Make the per-login unique index treat NULLs as equal.
+--
+-- Connections made before logins were identified have a NULL
+-- "providerAccountId". With the default NULLS DISTINCT semantics any number of
+-- them could exist per organization and provider; this allows at most one,
+-- which the OAuth callback adopts and fills in when that login reconnects.
+-- Requires PostgreSQL 15+.
+--
+-- Stops with an error, changing nothing, if an organization already has
+-- several such connections for a provider. Re-authorizing each of them
+-- (GET /api/oauth/<provider>/authorize?connectionId=...) fills in its ID;
+-- delete any that turn out to be duplicates, then run this again.
+
+DO $$
+DECLARE
+  duplicate RECORD;
+BEGIN
+  SELECT "organizationId", provider, COUNT(*) AS count
+  INTO duplicate
+  FROM connections
+  WHERE "providerAccountId" IS NULL
+  GROUP BY "organizationId", provider
+  HAVING COUNT(*) > 1
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Organization % has % % connections without a provider account ID',
+      duplicate."organizationId", duplicate.count, duplicate.provider;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS "connections_organizationId_provider_providerAccountId_key";
+
+CREATE UNIQUE INDEX "connections_organizationId_provider_providerAccountId_key"
+  ON connections ("organizationId", provider, "providerAccountId")
+  NULLS NOT DISTINCT;
@@ -0,0 +1,31 @@
+-- Schema adjustments for metrics_fact that Prisma cannot express.
+-- Run after `prisma db push`:
+--
+--   npm run db:constraints
+
+-- 1. Make the composite unique index treat NULLs as equal.
+--
+-- Campaign-level facts have a NULL "adGroupId"/"adId" and ad group level facts
+-- a NULL "adId". With the default NULLS DISTINCT semantics those rows never
+-- conflict, so INSERT ... ON CONFLICT in the sync workers would append a new
+-- copy on every sync. Requires PostgreSQL 15+.
+
+DROP INDEX IF EXISTS metrics_fact_unique_key;
+
+CREATE UNIQUE INDEX metrics_fact_unique_key
+  ON metrics_fact (date, provider, "adAccountId", "campaignId", "adGroupId", "adId")
+  NULLS NOT DISTINCT;
+
+-- 2. Backfill the grain of facts written before the column existed.
+
+UPDATE metrics_fact
+SET grain = CASE
+  WHEN "adId" IS NOT NULL THEN 'AD'::"MetricsGrain"
+  WHEN "adGroupId" IS NOT NULL THEN 'AD_GROUP'::"MetricsGrain"
+  ELSE 'CAMPAIGN'::"MetricsGrain"
+END
+WHERE grain IS DISTINCT FROM CASE
+  WHEN "adId" IS NOT NULL THEN 'AD'::"MetricsGrain"
+  WHEN "adGroupId" IS NOT NULL THEN 'AD_GROUP'::"MetricsGrain"
+  ELSE 'CAMPAIGN'::"MetricsGrain"
+END;
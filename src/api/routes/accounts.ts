@@ -2,18 +2,24 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import prisma from '../../lib/prisma';
 import { authenticate, requireOrganization, requireAdmin } from '../middleware/auth';
-import { scheduleInitialSync } from '../../lib/queue';
+import { scheduleInitialSync, scheduleOrganizationSyncs } from '../../lib/queue';
 
 const router = Router();
 
 // Validation schemas
 const linkAccountsSchema = z.object({
+  provider: z.enum(['GOOGLE_ADS', 'META_ADS', 'TIKTOK_ADS']).default('GOOGLE_ADS'),
+  // Required when the organization has several active connections for the provider
+  connectionId: z.string().uuid().optional(),
   accounts: z.array(
     z.object({
       externalId: z.string(),
       name: z.string(),
       currency: z.string().default('USD'),
       timezone: z.string().default('America/Los_Angeles'),
+      parentExternalId: z.string().nullable().optional(),
+      isManager: z.boolean().default(false),
+      loginCustomerId: z.string().regex(/^[\d-]+$/).nullable().optional(),
     })
   ),
 });
@@ -29,6 +35,7 @@ router.get('/', authenticate, requireOrganization, async (req: Request, res: Res
       include: {
         connection: {
           select: {
+            id: true,
             status: true,
             providerEmail: true,
           },
@@ -51,8 +58,11 @@ router.get('/', authenticate, requireOrganization, async (req: Request, res: Res
         currency: a.currency,
         timezone: a.timezone,
         isEnabled: a.isEnabled,
+        isManager: a.isManager,
+        parentAccountId: a.parentAccountId,
         syncStatus: a.syncStatus,
         lastSyncedAt: a.lastSyncedAt,
+        connectionId: a.connection.id,
         connectionStatus: a.connection.status,
         connectionEmail: a.connection.providerEmail,
         campaignCount: a._count.campaigns,
@@ -101,27 +111,37 @@ router.get('/:id', authenticate, requireOrganization, async (req: Request, res:
 
 /**
  * POST /api/accounts/link
- * Link Google Ads accounts to the organization
+ * Link ad accounts from one of the organization's connections for a provider.
+ * Accounts already linked through another connection move to this one.
  */
 router.post('/link', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
   try {
     const data = linkAccountsSchema.parse(req.body);
     const organizationId = req.user!.organizationId!;
+    const { provider } = data;
 
-    // Get active connection
-    const connection = await prisma.connection.findFirst({
+    // Get the active connection the accounts come from
+    const connections = await prisma.connection.findMany({
       where: {
         organizationId,
-        provider: 'GOOGLE_ADS',
+        provider,
         status: 'ACTIVE',
+        ...(data.connectionId && { id: data.connectionId }),
       },
     });
 
-    if (!connection) {
-      res.status(400).json({ error: 'No active Google Ads connection' });
+    if (connections.length === 0) {
+      res.status(400).json({ error: `No active ${provider} connection` });
       return;
     }
 
+    if (connections.length > 1) {
+      res.status(400).json({ error: 'Several active connections; specify connectionId' });
+      return;
+    }
+
+    const [connection] = connections;
+
     // Create accounts
     const createdAccounts = [];
 
@@ -131,21 +151,24 @@ router.post('/link', authenticate, requireOrganization, requireAdmin, async (req
         where: {
           organizationId_provider_externalId: {
             organizationId,
-            provider: 'GOOGLE_ADS',
+            provider,
             externalId: accountData.externalId,
           },
         },
       });
 
       if (existing) {
-        // Re-enable if disabled
-        if (!existing.isEnabled) {
-          await prisma.adAccount.update({
-            where: { id: existing.id },
-            data: { isEnabled: true },
-          });
-        }
-        createdAccounts.push(existing);
+        // Re-enable if disabled, and pick up any change in connection or hierarchy
+        const updated = await prisma.adAccount.update({
+          where: { id: existing.id },
+          data: {
+            connectionId: connection.id,
+            isEnabled: true,
+            isManager: accountData.isManager,
+            loginCustomerId: accountData.loginCustomerId ?? null,
+          },
+        });
+        createdAccounts.push(updated);
         continue;
       }
 
@@ -154,11 +177,13 @@ router.post('/link', authenticate, requireOrganization, requireAdmin, async (req
         data: {
           organizationId,
           connectionId: connection.id,
-          provider: 'GOOGLE_ADS',
+          provider,
           externalId: accountData.externalId,
           name: accountData.name,
           currency: accountData.currency,
           timezone: accountData.timezone,
+          isManager: accountData.isManager,
+          loginCustomerId: accountData.loginCustomerId ?? null,
           isEnabled: true,
           syncStatus: 'PENDING',
         },
@@ -166,20 +191,61 @@ router.post('/link', authenticate, requireOrganization, requireAdmin, async (req
 
       createdAccounts.push(account);
 
+      // Manager accounts only group their clients; there is nothing to sync
+      if (account.isManager) {
+        continue;
+      }
+
       // Schedule initial sync
       try {
         await scheduleInitialSync({
           id: account.id,
           connectionId: connection.id,
           externalId: account.externalId,
-          provider: 'GOOGLE_ADS',
+          provider,
           organizationId,
+          timezone: account.timezone,
         });
       } catch (e) {
         console.error('Failed to schedule initial sync:', e);
       }
     }
 
+    // Link each account to its manager when the manager is linked too
+    const parentExternalIds = data.accounts
+      .map((a) => a.parentExternalId)
+      .filter((id): id is string => Boolean(id));
+
+    const parents = await prisma.adAccount.findMany({
+      where: { organizationId, provider, externalId: { in: parentExternalIds } },
+      select: { id: true, externalId: true },
+    });
+    const parentIds = new Map(parents.map((p) => [p.externalId, p.id]));
+
+    for (const accountData of data.accounts) {
+      await prisma.adAccount.update({
+        where: {
+          organizationId_provider_externalId: {
+            organizationId,
+            provider,
+            externalId: accountData.externalId,
+          },
+        },
+        data: {
+          parentAccountId: accountData.parentExternalId
+            ? parentIds.get(accountData.parentExternalId) ?? null
+            : null,
+        },
+      });
+    }
+
+    // New accounts may bring a timezone that needs its own daily schedule
+    try {
+      await scheduleOrganizationSyncs(organizationId);
+    } catch (e) {
+      console.error('Failed to update sync schedule:', e);
+    }
+
     res.status(201).json({
       accounts: createdAccounts,
       message: `${createdAccounts.length} account(s) linked successfully`,
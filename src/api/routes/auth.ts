@@ -11,6 +11,7 @@ import {
   deleteSession,
 } from '../../lib/auth';
 import { authenticate } from '../middleware/auth';
+import { scheduleOrganizationSyncs } from '../../lib/queue';
 
 const router = Router();
 
@@ -90,6 +91,11 @@ router.post('/signup', async (req: Request, res: Response) => {
       return { user, organization };
     });
 
+    // Register the default sync schedule (re-registered on worker start if this fails)
+    await scheduleOrganizationSyncs(result.organization.id).catch((err) => {
+      console.error('Failed to schedule syncs for new organization:', err);
+    });
+
     // Generate tokens
     const tokens = await generateTokenPair({
       id: result.user.id,
@@ -346,6 +352,8 @@ router.get('/me', authenticate, async (req: Request, res: Response) => {
         emailVerified: user.emailVerified,
         createdAt: user.createdAt,
       },
+      // Organization requests act in unless they name another
+      organizationId: req.user!.organizationId ?? null,
       organizations: user.memberships.map((m) => ({
         id: m.organization.id,
         name: m.organization.name,
@@ -0,0 +1,591 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { MetricsGrain, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { authenticate, requireOrganization } from '../middleware/auth';
+import { cache } from '../../lib/redis';
+
+const router = Router();
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Comma-separated list of allowed values
+const csvEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(values)));
+
+const ENTITY_STATUSES = ['ENABLED', 'PAUSED', 'REMOVED', 'UNKNOWN'] as const;
+
+const METRIC_SORT_KEYS = [
+  'impressions',
+  'clicks',
+  'spend',
+  'conversions',
+  'conversionValue',
+  'cpc',
+  'cpm',
+  'ctr',
+  'roas',
+] as const;
+
+// Validation schemas
+const pageQuerySchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+  // Adds each row's spend in this period and the change from it
+  compareStartDate: dateSchema.optional(),
+  compareEndDate: dateSchema.optional(),
+  status: csvEnum([...ENTITY_STATUSES]).optional(),
+  search: z.string().trim().max(200).optional(),
+  sortBy: z.enum(['name', ...METRIC_SORT_KEYS]).default('spend'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.string().regex(/^\d+$/).default('50'),
+  cursor: z.string().optional(),
+});
+
+const campaignQuerySchema = pageQuerySchema.extend({
+  sortBy: z.enum(['name', 'budget', ...METRIC_SORT_KEYS]).default('spend'),
+  type: z.string().optional(), // Comma-separated
+  provider: z.enum(['GOOGLE_ADS', 'META_ADS', 'TIKTOK_ADS']).optional(),
+  accountIds: z.string().optional(), // Comma-separated
+});
+
+type PageQuery = z.infer<typeof pageQuerySchema>;
+type SortKey = z.infer<typeof campaignQuerySchema>['sortBy'];
+
+// Upper bound on rows returned per page
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Dimension table a listing reads, and the fact rows reported at its level
+ */
+interface EntityLevel {
+  table: string;
+  factColumn: string;
+  grain: MetricsGrain;
+  columns: string;
+}
+
+const LEVELS = {
+  campaign: {
+    table: 'campaigns',
+    factColumn: 'campaignId',
+    grain: 'CAMPAIGN',
+    columns: 'e.id, e."externalId", e.name, e.status::text AS status, e.type, e.budget, e."budgetType", e."adAccountId"',
+  },
+  adGroup: {
+    table: 'ad_groups',
+    factColumn: 'adGroupId',
+    grain: 'AD_GROUP',
+    columns: 'e.id, e."externalId", e.name, e.status::text AS status, e."campaignId", e."adAccountId"',
+  },
+  ad: {
+    table: 'ads',
+    factColumn: 'adId',
+    grain: 'AD',
+    columns:
+      'e.id, e."externalId", e.name, e.status::text AS status, e.type, e.headline, e.description, e."finalUrl", ' +
+      'e."adGroupId", e."campaignId", e."adAccountId"',
+  },
+} satisfies Record<string, EntityLevel>;
+
+// Sort expressions over the ranked rows, and how a cursor value is cast back
+const SORT_EXPRESSIONS: Record<SortKey, { sql: string; cast: 'text' | 'numeric' }> = {
+  name: { sql: `COALESCE(r.name, '')`, cast: 'text' },
+  budget: { sql: 'COALESCE(r.budget, 0)', cast: 'numeric' },
+  impressions: { sql: 'r.impressions', cast: 'numeric' },
+  clicks: { sql: 'r.clicks', cast: 'numeric' },
+  spend: { sql: 'r.spend', cast: 'numeric' },
+  conversions: { sql: 'r.conversions', cast: 'numeric' },
+  conversionValue: { sql: 'r."conversionValue"', cast: 'numeric' },
+  cpc: { sql: 'r.cpc', cast: 'numeric' },
+  cpm: { sql: 'r.cpm', cast: 'numeric' },
+  ctr: { sql: 'r.ctr', cast: 'numeric' },
+  roas: { sql: 'r.roas', cast: 'numeric' },
+};
+
+/**
+ * Position after the last row of a page. Bound to the sort it was issued
+ * for, since it means nothing under another.
+ */
+interface Cursor {
+  sortBy: SortKey;
+  sortOrder: 'asc' | 'desc';
+  value: string;
+  id: string;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(text: string, sortBy: SortKey, sortOrder: 'asc' | 'desc'): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, 'base64url').toString());
+
+    if (
+      cursor.sortBy !== sortBy ||
+      cursor.sortOrder !== sortOrder ||
+      typeof cursor.value !== 'string' ||
+      typeof cursor.id !== 'string'
+    ) {
+      return null;
+    }
+
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Thrown for a cursor that cannot be decoded or belongs to another sort
+ */
+class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface MetricsColumns {
+  impressions: bigint;
+  clicks: bigint;
+  spend: Prisma.Decimal;
+  conversions: Prisma.Decimal;
+  conversionValue: Prisma.Decimal;
+  cpc: Prisma.Decimal;
+  cpm: Prisma.Decimal;
+  ctr: Prisma.Decimal;
+  roas: Prisma.Decimal;
+}
+
+interface EntityRow extends MetricsColumns {
+  id: string;
+  sortValue: string;
+  [column: string]: any;
+}
+
+/**
+ * Money is returned as exact decimal text, like GET /api/metrics
+ */
+function formatMetrics(row: MetricsColumns) {
+  return {
+    impressions: Number(row.impressions),
+    clicks: Number(row.clicks),
+    spend: row.spend.toString(),
+    conversions: Number(row.conversions),
+    conversionValue: row.conversionValue.toString(),
+    cpc: row.cpc.toString(),
+    cpm: row.cpm.toString(),
+    ctr: Number(row.ctr),
+    roas: Number(row.roas),
+  };
+}
+
+/**
+ * Strip the query columns from a row, leaving the entity and its metrics
+ */
+function formatEntity(row: EntityRow): Record<string, any> & ReturnType<typeof formatMetrics> {
+  const {
+    sortValue: _sortValue,
+    impressions: _impressions,
+    clicks: _clicks,
+    spend: _spend,
+    conversions: _conversions,
+    conversionValue: _conversionValue,
+    cpc: _cpc,
+    cpm: _cpm,
+    ctr: _ctr,
+    roas: _roas,
+    ...entity
+  } = row;
+
+  return { ...entity, ...formatMetrics(row) };
+}
+
+/**
+ * One page of an entity level with metrics aggregated over a date range,
+ * sorted on any column and paged by keyset cursor, plus totals over every
+ * matching row
+ */
+async function listEntities(
+  level: EntityLevel,
+  scope: Prisma.Sql[],
+  query: Omit<PageQuery, 'sortBy'> & { sortBy: SortKey }
+) {
+  const conditions = [...scope];
+  const { startDate, endDate, sortBy, sortOrder } = query;
+  const limit = Math.min(Math.max(parseInt(query.limit), 1), MAX_PAGE_SIZE);
+
+  if (query.status?.length) {
+    conditions.push(Prisma.sql`e.status::text IN (${Prisma.join(query.status)})`);
+  }
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push(Prisma.sql`e.name ILIKE ${pattern}`);
+  }
+
+  const ranked = Prisma.sql`
+    WITH entity_metrics AS (
+      SELECT
+        ${Prisma.raw(level.columns)},
+        a.name AS "accountName",
+        a.provider::text AS provider,
+        a.currency,
+        COALESCE(SUM(f.impressions), 0)::bigint AS impressions,
+        COALESCE(SUM(f.clicks), 0)::bigint AS clicks,
+        COALESCE(SUM(f.spend), 0) AS spend,
+        COALESCE(SUM(f.conversions), 0) AS conversions,
+        COALESCE(SUM(f."conversionValue"), 0) AS "conversionValue"
+      FROM ${Prisma.raw(level.table)} e
+      JOIN ad_accounts a ON a.id = e."adAccountId"
+      LEFT JOIN metrics_fact f
+        ON f.${Prisma.raw(`"${level.factColumn}"`)} = e.id
+        AND f.grain = ${level.grain}::"MetricsGrain"
+        AND f.date >= ${startDate}::date
+        AND f.date <= ${endDate}::date
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      GROUP BY e.id, a.id
+    ),
+    ranked AS (
+      SELECT
+        m.*,
+        COALESCE(ROUND(m.spend / NULLIF(m.clicks, 0), 6), 0) AS cpc,
+        COALESCE(ROUND(m.spend * 1000 / NULLIF(m.impressions, 0), 6), 0) AS cpm,
+        COALESCE(m.clicks::numeric * 100 / NULLIF(m.impressions, 0), 0) AS ctr,
+        COALESCE(m."conversionValue" / NULLIF(m.spend, 0), 0) AS roas
+      FROM entity_metrics m
+    )
+  `;
+
+  const sort = SORT_EXPRESSIONS[sortBy];
+  const sortSql = Prisma.raw(sort.sql);
+  const direction = Prisma.raw(sortOrder === 'asc' ? 'ASC' : 'DESC');
+
+  let after = Prisma.empty;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, sortBy, sortOrder);
+    if (!cursor) {
+      throw new InvalidCursorError();
+    }
+
+    // Ties on the sort column are broken by ID so pages never overlap
+    after = Prisma.sql`WHERE (${sortSql}, r.id) ${Prisma.raw(sortOrder === 'asc' ? '>' : '<')} (${cursor.value}::${Prisma.raw(sort.cast)}, ${cursor.id})`;
+  }
+
+  const [rows, [totals]] = await Promise.all([
+    prisma.$queryRaw<EntityRow[]>`
+      ${ranked}
+      SELECT r.*, (${sortSql})::text AS "sortValue"
+      FROM ranked r
+      ${after}
+      ORDER BY ${sortSql} ${direction}, r.id ${direction}
+      LIMIT ${limit + 1}
+    `,
+    prisma.$queryRaw<Array<MetricsColumns & { total: number }>>`
+      ${ranked}
+      SELECT
+        COUNT(*)::int AS total,
+        COALESCE(SUM(r.impressions), 0)::bigint AS impressions,
+        COALESCE(SUM(r.clicks), 0)::bigint AS clicks,
+        COALESCE(SUM(r.spend), 0) AS spend,
+        COALESCE(SUM(r.conversions), 0) AS conversions,
+        COALESCE(SUM(r."conversionValue"), 0) AS "conversionValue",
+        COALESCE(ROUND(SUM(r.spend) / NULLIF(SUM(r.clicks), 0), 6), 0) AS cpc,
+        COALESCE(ROUND(SUM(r.spend) * 1000 / NULLIF(SUM(r.impressions), 0), 6), 0) AS cpm,
+        COALESCE(SUM(r.clicks)::numeric * 100 / NULLIF(SUM(r.impressions), 0), 0) AS ctr,
+        COALESCE(SUM(r."conversionValue") / NULLIF(SUM(r.spend), 0), 0) AS roas
+      FROM ranked r
+    `,
+  ]);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  // Spend in the comparison period, for the rows on this page only
+  let previousSpend = new Map<string, string>();
+  if (query.compareStartDate && query.compareEndDate && page.length > 0) {
+    const previous = await prisma.$queryRaw<Array<{ id: string; spend: Prisma.Decimal }>>`
+      SELECT f.${Prisma.raw(`"${level.factColumn}"`)} AS id, SUM(f.spend) AS spend
+      FROM metrics_fact f
+      WHERE f.${Prisma.raw(`"${level.factColumn}"`)} IN (${Prisma.join(page.map((r) => r.id))})
+        AND f.grain = ${level.grain}::"MetricsGrain"
+        AND f.date >= ${query.compareStartDate}::date
+        AND f.date <= ${query.compareEndDate}::date
+      GROUP BY f.${Prisma.raw(`"${level.factColumn}"`)}
+    `;
+    previousSpend = new Map(previous.map((p) => [p.id, p.spend.toString()]));
+  }
+
+  const comparing = Boolean(query.compareStartDate && query.compareEndDate);
+
+  return {
+    rows: page.map((row) => {
+      const entity = formatEntity(row);
+
+      if (!comparing) {
+        return entity;
+      }
+
+      const previous = previousSpend.get(row.id) ?? '0';
+      const change = Number(previous) > 0
+        ? ((Number(entity.spend) - Number(previous)) / Number(previous)) * 100
+        : null;
+
+      return { ...entity, previousSpend: previous, change };
+    }),
+    totals: formatMetrics(totals),
+    total: totals.total,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore && last
+        ? encodeCursor({ sortBy, sortOrder, value: last.sortValue, id: last.id })
+        : null,
+    },
+  };
+}
+
+/**
+ * Find a campaign in the organization
+ */
+function findCampaign(req: Request) {
+  return prisma.campaign.findFirst({
+    where: {
+      id: req.params.id,
+      adAccount: { organizationId: req.user!.organizationId! },
+    },
+    include: {
+      adAccount: {
+        select: { id: true, name: true, provider: true, currency: true },
+      },
+    },
+  });
+}
+
+/**
+ * GET /api/campaigns
+ * List campaigns with metrics for a date range. Filter by status, type,
+ * provider, account or name; sort on any metric; page with ?cursor=.
+ */
+router.get('/', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const query = campaignQuerySchema.parse(req.query);
+    const organizationId = req.user!.organizationId!;
+
+    // Sits under the metrics prefix so syncs that change data invalidate it
+    const cacheKey = `metrics:${organizationId}:campaigns:${JSON.stringify(query)}`;
+    const cached = await cache.get<any>(cacheKey);
+    if (cached) {
+      res.json(cached);
+      return;
+    }
+
+    const accountIds = query.accountIds?.split(',').filter(Boolean);
+    const types = query.type?.split(',').filter(Boolean);
+
+    const conditions = [
+      Prisma.sql`a."organizationId" = ${organizationId}`,
+      Prisma.sql`a."isEnabled" = true`,
+    ];
+    if (query.provider) {
+      conditions.push(Prisma.sql`a.provider = ${query.provider}::"Provider"`);
+    }
+    if (accountIds?.length) {
+      conditions.push(Prisma.sql`e."adAccountId" IN (${Prisma.join(accountIds)})`);
+    }
+    if (types?.length) {
+      conditions.push(Prisma.sql`e.type IN (${Prisma.join(types)})`);
+    }
+
+    const result = await listEntities(LEVELS.campaign, conditions, query);
+
+    const response = {
+      campaigns: result.rows.map((row) => ({
+        ...row,
+        budget: row.budget === null ? null : String(row.budget),
+      })),
+      totals: result.totals,
+      total: result.total,
+      meta: {
+        startDate: query.startDate,
+        endDate: query.endDate,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+      },
+      pagination: result.pagination,
+    };
+
+    await cache.set(cacheKey, response, 300); // 5 minutes
+
+    res.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('List campaigns error:', error);
+    res.status(500).json({ error: 'Failed to list campaigns' });
+  }
+});
+
+/**
+ * GET /api/campaigns/:id
+ * Get a campaign with its metrics for a date range
+ */
+router.get('/:id', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { startDate, endDate } = z.object({
+      startDate: dateSchema,
+      endDate: dateSchema,
+    }).parse(req.query);
+
+    const campaign = await findCampaign(req);
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const [totals] = await prisma.$queryRaw<MetricsColumns[]>`
+      SELECT
+        COALESCE(SUM(f.impressions), 0)::bigint AS impressions,
+        COALESCE(SUM(f.clicks), 0)::bigint AS clicks,
+        COALESCE(SUM(f.spend), 0) AS spend,
+        COALESCE(SUM(f.conversions), 0) AS conversions,
+        COALESCE(SUM(f."conversionValue"), 0) AS "conversionValue",
+        COALESCE(ROUND(SUM(f.spend) / NULLIF(SUM(f.clicks), 0), 6), 0) AS cpc,
+        COALESCE(ROUND(SUM(f.spend) * 1000 / NULLIF(SUM(f.impressions), 0), 6), 0) AS cpm,
+        COALESCE(SUM(f.clicks)::numeric * 100 / NULLIF(SUM(f.impressions), 0), 0) AS ctr,
+        COALESCE(SUM(f."conversionValue") / NULLIF(SUM(f.spend), 0), 0) AS roas
+      FROM metrics_fact f
+      WHERE f."campaignId" = ${campaign.id}
+        AND f.grain = 'CAMPAIGN'::"MetricsGrain"
+        AND f.date >= ${startDate}::date
+        AND f.date <= ${endDate}::date
+    `;
+
+    const adGroupCount = await prisma.adGroup.count({ where: { campaignId: campaign.id } });
+
+    res.json({
+      campaign: {
+        id: campaign.id,
+        externalId: campaign.externalId,
+        name: campaign.name,
+        status: campaign.status,
+        type: campaign.type,
+        budget: campaign.budget?.toString() ?? null,
+        budgetType: campaign.budgetType,
+        startDate: campaign.startDate,
+        endDate: campaign.endDate,
+        adAccountId: campaign.adAccount.id,
+        accountName: campaign.adAccount.name,
+        provider: campaign.adAccount.provider,
+        currency: campaign.adAccount.currency,
+        adGroupCount,
+        ...formatMetrics(totals),
+      },
+      meta: { startDate, endDate },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Get campaign error:', error);
+    res.status(500).json({ error: 'Failed to get campaign' });
+  }
+});
+
+/**
+ * GET /api/campaigns/:id/ad-groups
+ * List a campaign's ad groups with metrics, paged like GET /api/campaigns
+ */
+router.get('/:id/ad-groups', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const query = pageQuerySchema.parse(req.query);
+    const campaign = await findCampaign(req);
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const result = await listEntities(
+      LEVELS.adGroup,
+      [Prisma.sql`e."campaignId" = ${campaign.id}`],
+      query
+    );
+
+    res.json({
+      adGroups: result.rows,
+      totals: result.totals,
+      total: result.total,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('List ad groups error:', error);
+    res.status(500).json({ error: 'Failed to list ad groups' });
+  }
+});
+
+/**
+ * GET /api/campaigns/:id/ads
+ * List a campaign's ads with metrics, optionally for one ad group
+ */
+router.get('/:id/ads', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { adGroupId, ...query } = pageQuerySchema.extend({
+      adGroupId: z.string().uuid().optional(),
+    }).parse(req.query);
+
+    const campaign = await findCampaign(req);
+
+    if (!campaign) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const conditions = [Prisma.sql`e."campaignId" = ${campaign.id}`];
+    if (adGroupId) {
+      conditions.push(Prisma.sql`e."adGroupId" = ${adGroupId}`);
+    }
+
+    const result = await listEntities(LEVELS.ad, conditions, query);
+
+    res.json({
+      ads: result.rows,
+      totals: result.totals,
+      total: result.total,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    if (error instanceof InvalidCursorError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('List ads error:', error);
+    res.status(500).json({ error: 'Failed to list ads' });
+  }
+});
+
+export default router;
@@ -0,0 +1,135 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../../lib/prisma';
+import { authenticate, requireOrganization, requireAdmin } from '../middleware/auth';
+import { checkConnectionHealth } from '../../lib/connection-health';
+
+const router = Router();
+
+/**
+ * GET /api/connections
+ * Get all of the organization's connections with their latest health
+ */
+router.get('/', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const connections = await prisma.connection.findMany({
+      where: { organizationId: req.user!.organizationId! },
+      include: {
+        healthChecks: {
+          orderBy: { checkedAt: 'desc' },
+          take: 1,
+        },
+        _count: {
+          select: { adAccounts: true },
+        },
+      },
+      orderBy: [{ provider: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json({
+      connections: connections.map((c) => ({
+        id: c.id,
+        provider: c.provider,
+        status: c.status,
+        email: c.providerEmail,
+        error: c.errorMessage,
+        lastRefreshed: c.lastRefreshedAt,
+        lastChecked: c.lastCheckedAt,
+        consecutiveFailures: c.consecutiveFailures,
+        lastCheck: c.healthChecks[0] ?? null,
+        accountCount: c._count.adAccounts,
+        connectedAt: c.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Get connections error:', error);
+    res.status(500).json({ error: 'Failed to get connections' });
+  }
+});
+
+/**
+ * GET /api/connections/:id/health
+ * Get a connection's health check history, newest first
+ */
+router.get('/:id/health', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = z.object({
+      limit: z.string().regex(/^\d+$/).default('50'),
+      offset: z.string().regex(/^\d+$/).default('0'),
+    }).parse(req.query);
+
+    const connection = await prisma.connection.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId!,
+      },
+    });
+
+    if (!connection) {
+      res.status(404).json({ error: 'Connection not found' });
+      return;
+    }
+
+    const where = { connectionId: connection.id };
+
+    const [checks, total] = await Promise.all([
+      prisma.connectionHealthCheck.findMany({
+        where,
+        orderBy: { checkedAt: 'desc' },
+        take: parseInt(limit),
+        skip: parseInt(offset),
+      }),
+      prisma.connectionHealthCheck.count({ where }),
+    ]);
+
+    res.json({
+      checks,
+      pagination: {
+        total,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Get connection health error:', error);
+    res.status(500).json({ error: 'Failed to get connection health' });
+  }
+});
+
+/**
+ * POST /api/connections/:id/check
+ * Run a health check on a connection now
+ */
+router.post('/:id/check', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const connection = await prisma.connection.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId!,
+      },
+    });
+
+    if (!connection) {
+      res.status(404).json({ error: 'Connection not found' });
+      return;
+    }
+
+    if (connection.status === 'DISCONNECTED') {
+      res.status(400).json({ error: 'Connection is disconnected' });
+      return;
+    }
+
+    const check = await checkConnectionHealth(connection);
+
+    res.json({ check });
+  } catch (error) {
+    console.error('Check connection error:', error);
+    res.status(500).json({ error: 'Failed to check connection' });
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { Prisma } from '@prisma/client';
+import { MetricsGrain, Prisma } from '@prisma/client';
 import prisma from '../../lib/prisma';
 import { authenticate, requireOrganization } from '../middleware/auth';
 import { cache } from '../../lib/redis';
@@ -12,13 +12,19 @@ const metricsQuerySchema = z.object({
   startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   granularity: z.enum(['day', 'week', 'month']).default('day'),
+  weekStartsOn: z.string().regex(/^[0-6]$/).default('1'), // 0 = Sunday, 1 = Monday (ISO)
   groupBy: z.enum(['account', 'campaign', 'adGroup', 'ad']).optional(),
   provider: z.enum(['GOOGLE_ADS', 'META_ADS', 'TIKTOK_ADS']).optional(),
   accountIds: z.string().optional(), // Comma-separated
   campaignIds: z.string().optional(), // Comma-separated
   metrics: z.string().optional(), // Comma-separated list
+  limit: z.string().regex(/^\d+$/).default('5000'),
+  offset: z.string().regex(/^\d+$/).default('0'),
 });
 
+// Upper bound on rows returned per page of GET /api/metrics
+const MAX_METRICS_PAGE_SIZE = 10000;
+
 // Available metrics
 const AVAILABLE_METRICS = [
   'impressions',
@@ -32,22 +38,6 @@ const AVAILABLE_METRICS = [
   'roas',
 ];
 
-interface MetricsRow {
-  date: Date;
-  impressions: bigint;
-  clicks: bigint;
-  spend: Prisma.Decimal;
-  conversions: Prisma.Decimal;
-  conversionValue: Prisma.Decimal;
-  adAccountId?: string;
-  campaignId?: string;
-  adGroupId?: string;
-  adId?: string;
-  accountName?: string;
-  campaignName?: string;
-  adGroupName?: string;
-}
-
 /**
  * Calculate derived metrics
  */
@@ -66,6 +56,79 @@ function calculateDerivedMetrics(row: {
   return { cpc, cpm, ctr, roas };
 }
 
+// Columns added to the GROUP BY for each groupBy option
+const GROUP_COLUMNS = {
+  account: ['adAccountId'],
+  campaign: ['adAccountId', 'campaignId'],
+  adGroup: ['adAccountId', 'campaignId', 'adGroupId'],
+  ad: ['adAccountId', 'campaignId', 'adGroupId', 'adId'],
+} as const;
+
+// Fact grain to read for each groupBy option. Every level re-reports the same
+// spend, so summing across grains would double count.
+const GROUP_GRAIN: Record<keyof typeof GROUP_COLUMNS, MetricsGrain> = {
+  account: 'CAMPAIGN',
+  campaign: 'CAMPAIGN',
+  adGroup: 'AD_GROUP',
+  ad: 'AD',
+};
+
+// Sums and derived metrics. Money is returned as exact decimal text.
+const AGGREGATE_COLUMNS = Prisma.sql`
+  COALESCE(SUM(f.impressions), 0)::bigint AS impressions,
+  COALESCE(SUM(f.clicks), 0)::bigint AS clicks,
+  COALESCE(SUM(f.spend), 0)::text AS spend,
+  COALESCE(SUM(f.conversions), 0)::float8 AS conversions,
+  COALESCE(SUM(f."conversionValue"), 0)::text AS "conversionValue",
+  COALESCE(ROUND(SUM(f.spend) / NULLIF(SUM(f.clicks), 0), 6), 0)::text AS cpc,
+  COALESCE(ROUND(SUM(f.spend) * 1000 / NULLIF(SUM(f.impressions), 0), 6), 0)::text AS cpm,
+  COALESCE(SUM(f.clicks)::float8 * 100 / NULLIF(SUM(f.impressions), 0), 0) AS ctr,
+  COALESCE(SUM(f."conversionValue")::float8 / NULLIF(SUM(f.spend), 0)::float8, 0) AS roas
+`;
+
+interface AggregateRow {
+  impressions: bigint;
+  clicks: bigint;
+  spend: string;
+  conversions: number;
+  conversionValue: string;
+  cpc: string;
+  cpm: string;
+  ctr: number;
+  roas: number;
+}
+
+function formatAggregate(row: AggregateRow) {
+  return {
+    impressions: Number(row.impressions),
+    clicks: Number(row.clicks),
+    spend: row.spend,
+    conversions: row.conversions,
+    conversionValue: row.conversionValue,
+    cpc: row.cpc,
+    cpm: row.cpm,
+    ctr: row.ctr,
+    roas: row.roas,
+  };
+}
+
+/**
+ * SQL expression for the start date of the bucket a fact date falls in.
+ * Fact dates are already calendar days in the ad account's timezone, so
+ * bucketing the date column directly keeps buckets in that timezone.
+ */
+function bucketExpression(granularity: 'day' | 'week' | 'month', weekStartsOn: number): Prisma.Sql {
+  switch (granularity) {
+    case 'week':
+      // Inlined rather than bound so SELECT and GROUP BY use an identical expression
+      return Prisma.sql`(f.date - ((EXTRACT(DOW FROM f.date)::int - ${Prisma.raw(String(weekStartsOn))} + 7) % 7))`;
+    case 'month':
+      return Prisma.sql`date_trunc('month', f.date)::date`;
+    default:
+      return Prisma.sql`f.date`;
+  }
+}
+
 /**
  * GET /api/metrics
  * Get aggregated metrics for dashboards
@@ -110,135 +173,104 @@ router.get('/', authenticate, requireOrganization, async (req: Request, res: Res
     }
 
     // Build where clause
-    const whereClause: Prisma.MetricsFactWhereInput = {
-      adAccountId: { in: authorizedAccountIds },
-      date: {
-        gte: new Date(query.startDate),
-        lte: new Date(query.endDate),
-      },
-      ...(query.provider ? { provider: query.provider } : {}),
-      ...(campaignIds?.length ? { campaignId: { in: campaignIds } } : {}),
-    };
+    const grain = query.groupBy ? GROUP_GRAIN[query.groupBy] : 'CAMPAIGN';
+    const conditions = [
+      Prisma.sql`f."adAccountId" IN (${Prisma.join(authorizedAccountIds)})`,
+      Prisma.sql`f.grain = ${grain}::"MetricsGrain"`,
+      Prisma.sql`f.date >= ${query.startDate}::date`,
+      Prisma.sql`f.date <= ${query.endDate}::date`,
+    ];
+    if (query.provider) {
+      conditions.push(Prisma.sql`f.provider = ${query.provider}::"Provider"`);
+    }
+    if (campaignIds?.length) {
+      conditions.push(Prisma.sql`f."campaignId" IN (${Prisma.join(campaignIds)})`);
+    }
+    const whereClause = Prisma.join(conditions, ' AND ');
 
     // Determine grouping
-    let groupByFields: (keyof MetricsRow)[] = ['date'];
-    if (query.groupBy === 'account') groupByFields.push('adAccountId');
-    if (query.groupBy === 'campaign') groupByFields.push('adAccountId', 'campaignId');
-    if (query.groupBy === 'adGroup') groupByFields.push('adAccountId', 'campaignId', 'adGroupId');
-    if (query.groupBy === 'ad') groupByFields.push('adAccountId', 'campaignId', 'adGroupId', 'adId');
-
-    // Fetch raw metrics
-    const rawMetrics = await prisma.metricsFact.findMany({
-      where: whereClause,
-      orderBy: { date: 'asc' },
-    });
-
-    // Aggregate by date and group
-    const aggregatedMap = new Map<string, {
+    const weekStartsOn = parseInt(query.weekStartsOn);
+    const bucket = bucketExpression(query.granularity, weekStartsOn);
+    const groupColumns = query.groupBy ? GROUP_COLUMNS[query.groupBy] : [];
+    const groupSql = groupColumns.map((column) => Prisma.raw(`f."${column}"`));
+    const selectGroup = groupColumns.length
+      ? Prisma.sql`, ${Prisma.join(groupColumns.map((column) => Prisma.raw(`f."${column}" AS "${column}"`)))}`
+      : Prisma.empty;
+    const groupBy = Prisma.join([bucket, ...groupSql]);
+
+    const limit = Math.min(parseInt(query.limit), MAX_METRICS_PAGE_SIZE);
+    const offset = parseInt(query.offset);
+
+    // Aggregate in the database, fetching one extra row to detect more pages
+    const rows = await prisma.$queryRaw<Array<AggregateRow & {
       date: string;
-      impressions: number;
-      clicks: number;
-      spend: number;
-      conversions: number;
-      conversionValue: number;
       adAccountId?: string;
-      campaignId?: string;
-      adGroupId?: string;
-      adId?: string;
-    }>();
-
-    for (const row of rawMetrics) {
-      const dateStr = row.date.toISOString().split('T')[0];
-      let key = dateStr;
-
-      const groupData: any = { date: dateStr };
-
-      if (query.groupBy === 'account' || query.groupBy === 'campaign' || query.groupBy === 'adGroup' || query.groupBy === 'ad') {
-        key += `:${row.adAccountId}`;
-        groupData.adAccountId = row.adAccountId;
-        groupData.accountName = accountNameMap.get(row.adAccountId);
-      }
-      if (query.groupBy === 'campaign' || query.groupBy === 'adGroup' || query.groupBy === 'ad') {
-        key += `:${row.campaignId}`;
-        groupData.campaignId = row.campaignId;
-      }
-      if (query.groupBy === 'adGroup' || query.groupBy === 'ad') {
-        key += `:${row.adGroupId}`;
-        groupData.adGroupId = row.adGroupId;
-      }
-      if (query.groupBy === 'ad') {
-        key += `:${row.adId}`;
-        groupData.adId = row.adId;
-      }
-
-      const existing = aggregatedMap.get(key);
-      if (existing) {
-        existing.impressions += Number(row.impressions);
-        existing.clicks += Number(row.clicks);
-        existing.spend += Number(row.spend);
-        existing.conversions += Number(row.conversions);
-        existing.conversionValue += Number(row.conversionValue);
-      } else {
-        aggregatedMap.set(key, {
-          ...groupData,
-          impressions: Number(row.impressions),
-          clicks: Number(row.clicks),
-          spend: Number(row.spend),
-          conversions: Number(row.conversions),
-          conversionValue: Number(row.conversionValue),
-        });
-      }
-    }
+      campaignId?: string | null;
+      adGroupId?: string | null;
+      adId?: string | null;
+    }>>`
+      SELECT
+        to_char(${bucket}, 'YYYY-MM-DD') AS date
+        ${selectGroup},
+        ${AGGREGATE_COLUMNS}
+      FROM metrics_fact f
+      WHERE ${whereClause}
+      GROUP BY ${groupBy}
+      ORDER BY ${groupBy}
+      LIMIT ${limit + 1}
+      OFFSET ${offset}
+    `;
+
+    const hasMore = rows.length > limit;
+
+    const data = rows.slice(0, limit).map((row) => {
+      const metrics = formatAggregate(row);
 
-    // Convert to array and calculate derived metrics
-    const data = Array.from(aggregatedMap.values()).map((row) => {
-      const derived = calculateDerivedMetrics(row);
-      
       // Filter to requested metrics
       const result: any = { date: row.date };
-      
-      if (row.adAccountId) result.adAccountId = row.adAccountId;
+
+      if (row.adAccountId) {
+        result.adAccountId = row.adAccountId;
+        result.accountName = accountNameMap.get(row.adAccountId);
+      }
       if (row.campaignId) result.campaignId = row.campaignId;
       if (row.adGroupId) result.adGroupId = row.adGroupId;
       if (row.adId) result.adId = row.adId;
-      if ((row as any).accountName) result.accountName = (row as any).accountName;
 
       // Add requested metrics
       for (const metric of requestedMetrics) {
-        if (metric in row) {
-          result[metric] = (row as any)[metric];
-        } else if (metric in derived) {
-          result[metric] = (derived as any)[metric];
+        if (metric in metrics) {
+          result[metric] = (metrics as any)[metric];
         }
       }
 
       return result;
     });
 
-    // Calculate totals
-    const totals = data.reduce(
-      (acc, row) => ({
-        impressions: acc.impressions + (row.impressions || 0),
-        clicks: acc.clicks + (row.clicks || 0),
-        spend: acc.spend + (row.spend || 0),
-        conversions: acc.conversions + (row.conversions || 0),
-        conversionValue: acc.conversionValue + (row.conversionValue || 0),
-      }),
-      { impressions: 0, clicks: 0, spend: 0, conversions: 0, conversionValue: 0 }
-    );
-
-    const derivedTotals = calculateDerivedMetrics(totals);
+    // Totals over the whole range, not just this page
+    const [totals] = await prisma.$queryRaw<AggregateRow[]>`
+      SELECT ${AGGREGATE_COLUMNS}
+      FROM metrics_fact f
+      WHERE ${whereClause}
+    `;
 
     const response = {
       data,
-      totals: { ...totals, ...derivedTotals },
+      totals: formatAggregate(totals),
       meta: {
         startDate: query.startDate,
         endDate: query.endDate,
         granularity: query.granularity,
+        ...(query.granularity === 'week' && { weekStartsOn }),
         groupBy: query.groupBy,
+        grain,
         rowCount: data.length,
       },
+      pagination: {
+        limit,
+        offset,
+        hasMore,
+      },
     };
 
     // Cache response
@@ -291,6 +323,7 @@ router.get('/summary', authenticate, requireOrganization, async (req: Request, r
     const currentMetrics = await prisma.metricsFact.aggregate({
       where: {
         adAccountId: { in: accountIds },
+        grain: 'CAMPAIGN',
         date: {
           gte: new Date(startDate),
           lte: new Date(endDate),
@@ -321,6 +354,7 @@ router.get('/summary', authenticate, requireOrganization, async (req: Request, r
       const previousMetrics = await prisma.metricsFact.aggregate({
         where: {
           adAccountId: { in: accountIds },
+          grain: 'CAMPAIGN',
           date: {
             gte: new Date(compareStartDate),
             lte: new Date(compareEndDate),
@@ -405,6 +439,7 @@ router.get('/top-campaigns', authenticate, requireOrganization, async (req: Requ
       by: ['campaignId'],
       where: {
         adAccountId: { in: accountIds },
+        grain: 'CAMPAIGN',
         campaignId: { not: null },
         date: {
           gte: new Date(startDate),
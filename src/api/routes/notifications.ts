@@ -0,0 +1,103 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../../lib/prisma';
+import { authenticate, requireOrganization } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /api/notifications
+ * Get the current user's notifications in the organization, newest first
+ */
+router.get('/', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { unread, limit } = z.object({
+      unread: z.enum(['true', 'false']).optional(),
+      limit: z.string().regex(/^\d+$/).default('20'),
+    }).parse(req.query);
+
+    const where = {
+      userId: req.user!.id,
+      organizationId: req.user!.organizationId!,
+    };
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          ...where,
+          ...(unread === 'true' && { readAt: null }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: parseInt(limit),
+      }),
+      prisma.notification.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+/**
+ * POST /api/notifications/read-all
+ * Mark all of the current user's notifications as read
+ */
+router.post('/read-all', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId!,
+        readAt: null,
+      },
+      data: { readAt: new Date() },
+    });
+
+    res.json({ updated: count });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+/**
+ * POST /api/notifications/:id/read
+ * Mark a notification as read
+ */
+router.post('/:id/read', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: {
+        id: req.params.id,
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId!,
+        readAt: null,
+      },
+      data: { readAt: new Date() },
+    });
+
+    if (count === 0) {
+      const exists = await prisma.notification.count({
+        where: { id: req.params.id, userId: req.user!.id },
+      });
+
+      if (!exists) {
+        res.status(404).json({ error: 'Notification not found' });
+        return;
+      }
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import { Connection, ConnectionStatus } from '@prisma/client';
 import prisma from '../../lib/prisma';
 import { authenticate, requireOrganization } from '../middleware/auth';
 import {
@@ -7,25 +8,253 @@ import {
   listAccessibleCustomers,
 } from '../../lib/google-ads';
 import { encryptTokens } from '../../lib/encryption';
+import { getConnector, Provider, ProviderConnector } from '../../lib/connectors';
 
 const router = Router();
 
+// Pages an OAuth callback may send the user back to, by ?returnTo= name
+const RETURN_PATHS = {
+  connections: '/settings/connections',
+  onboarding: '/onboarding',
+};
+
+type ReturnTo = keyof typeof RETURN_PATHS;
+
+function isReturnTo(value: unknown): value is ReturnTo {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RETURN_PATHS, value);
+}
+
+interface OAuthState {
+  userId: string;
+  organizationId: string;
+  connectionId?: string; // Set when re-authorizing an existing connection
+  returnTo?: ReturnTo;
+  timestamp: number;
+}
+
+/**
+ * Build the OAuth state for an authorize request. Returns null when
+ * ?connectionId= names a connection the organization does not have.
+ * ?returnTo= picks the page the callback redirects to.
+ */
+async function createState(req: Request, provider: Provider): Promise<string | null> {
+  const { organizationId, id: userId } = req.user!;
+  const connectionId = req.query.connectionId as string | undefined;
+  const { returnTo } = req.query;
+
+  if (connectionId) {
+    const connection = await prisma.connection.findFirst({
+      where: { id: connectionId, organizationId: organizationId!, provider },
+    });
+
+    if (!connection) {
+      return null;
+    }
+  }
+
+  const state: OAuthState = {
+    userId,
+    organizationId: organizationId!,
+    connectionId,
+    returnTo: isReturnTo(returnTo) ? returnTo : undefined,
+    timestamp: Date.now(),
+  };
+
+  return Buffer.from(JSON.stringify(state)).toString('base64');
+}
+
+function decodeState(state: unknown): OAuthState | null {
+  try {
+    return JSON.parse(Buffer.from(state as string, 'base64').toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Frontend URL an OAuth callback redirects to: the page the flow started
+ * from, or the connections page
+ */
+function callbackUrl(state: OAuthState | null, params: Record<string, string>): string {
+  const path = RETURN_PATHS[isReturnTo(state?.returnTo) ? state!.returnTo : 'connections'];
+  return `${process.env.FRONTEND_URL}${path}?${new URLSearchParams(params)}`;
+}
+
+/**
+ * The organization's connection for a provider that predates logins being
+ * identified, taken to be the login now reconnecting. Only adopted when it is
+ * the only one and its email, if known, matches the login's.
+ */
+async function findLegacyConnection(
+  organizationId: string,
+  provider: Provider,
+  email?: string
+): Promise<Connection | null> {
+  const legacy = await prisma.connection.findMany({
+    where: { organizationId, provider, providerAccountId: null },
+    take: 2,
+  });
+
+  if (legacy.length !== 1) {
+    return null;
+  }
+
+  const [connection] = legacy;
+
+  if (connection.providerEmail && email && connection.providerEmail !== email) {
+    return null;
+  }
+
+  return connection;
+}
+
+/**
+ * Store the tokens from an OAuth callback. Re-authorizing updates the named
+ * connection; otherwise the login's existing connection is updated, or a new
+ * one is created (or its legacy connection without an ID adopted). Fails with the callback error code when a re-authorization
+ * signed in as a different login than the one the connection belongs to, or
+ * when a new login could not be identified (connections are unique per login,
+ * and a login without an ID would be added again on every reconnect).
+ */
+async function saveConnection(
+  state: OAuthState,
+  provider: Provider,
+  tokens: Awaited<ReturnType<ProviderConnector['exchangeCodeForTokens']>>,
+  scopes: string[]
+): Promise<{ connection: Connection } | { error: 'connection_mismatch' | 'unidentified_login' }> {
+  const encrypted = encryptTokens({
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  });
+
+  const connectionData = {
+    accessTokenEnc: encrypted.accessTokenEnc,
+    refreshTokenEnc: encrypted.refreshTokenEnc,
+    accessTokenExpiry: new Date(tokens.expiryDate),
+    providerAccountId: tokens.providerAccountId,
+    providerEmail: tokens.email,
+    scopes,
+    status: 'ACTIVE' as const,
+    errorMessage: null,
+    lastRefreshedAt: new Date(),
+  };
+
+  let existing: Connection | null = null;
+
+  if (state.connectionId) {
+    existing = await prisma.connection.findFirst({
+      where: { id: state.connectionId, organizationId: state.organizationId, provider },
+    });
+
+    if (
+      !existing ||
+      (existing.providerAccountId &&
+        tokens.providerAccountId &&
+        existing.providerAccountId !== tokens.providerAccountId)
+    ) {
+      return { error: 'connection_mismatch' };
+    }
+  } else if (!tokens.providerAccountId) {
+    return { error: 'unidentified_login' };
+  } else {
+    existing = await prisma.connection.findUnique({
+      where: {
+        organizationId_provider_providerAccountId: {
+          organizationId: state.organizationId,
+          provider,
+          providerAccountId: tokens.providerAccountId,
+        },
+      },
+    });
+
+    // The update below fills in the ID of an adopted legacy connection
+    existing ??= await findLegacyConnection(state.organizationId, provider, tokens.email);
+  }
+
+  if (existing) {
+    const connection = await prisma.connection.update({
+      where: { id: existing.id },
+      data: connectionData,
+    });
+    return { connection };
+  }
+
+  const connection = await prisma.connection.create({
+    data: {
+      organizationId: state.organizationId,
+      provider,
+      ...connectionData,
+    },
+  });
+  return { connection };
+}
+
+/**
+ * Find the organization's connections for a provider, narrowed to the one
+ * named by ?connectionId= when given. Routes that act on a single connection
+ * need exactly one match.
+ */
+async function findRequestedConnections(
+  req: Request,
+  provider: Provider,
+  status?: ConnectionStatus
+): Promise<Connection[]> {
+  const connectionId = req.query.connectionId as string | undefined;
+
+  return prisma.connection.findMany({
+    where: {
+      organizationId: req.user!.organizationId!,
+      provider,
+      ...(connectionId && { id: connectionId }),
+      ...(status && { status }),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Connection details returned by the status routes
+ */
+function toConnectionStatus(connection: Connection) {
+  return {
+    id: connection.id,
+    status: connection.status,
+    email: connection.providerEmail,
+    lastRefreshed: connection.lastRefreshedAt,
+    error: connection.errorMessage,
+    connectedAt: connection.createdAt,
+  };
+}
+
+/**
+ * Whether each account is linked, and through which connection
+ */
+async function getLinkedConnectionIds(
+  organizationId: string,
+  provider: Provider
+): Promise<Map<string, string>> {
+  const linkedAccounts = await prisma.adAccount.findMany({
+    where: { organizationId, provider },
+    select: { externalId: true, connectionId: true },
+  });
+
+  return new Map(linkedAccounts.map((a) => [a.externalId, a.connectionId]));
+}
+
 /**
  * GET /api/oauth/google/authorize
- * Generate OAuth authorization URL for Google Ads
+ * Generate OAuth authorization URL for Google Ads. Pass ?connectionId= to
+ * re-authorize an existing connection; otherwise a new login is connected.
+ * Pass ?returnTo=onboarding to come back to onboarding instead of settings.
  */
 router.get('/google/authorize', authenticate, requireOrganization, async (req: Request, res: Response) => {
   try {
-    const { organizationId, id: userId } = req.user!;
+    const state = await createState(req, 'GOOGLE_ADS');
 
-    // Create state parameter with user and org info
-    const state = Buffer.from(
-      JSON.stringify({
-        userId,
-        organizationId,
-        timestamp: Date.now(),
-      })
-    ).toString('base64');
+    if (!state) {
+      res.status(404).json({ error: 'Connection not found' });
+      return;
+    }
 
     const authUrl = generateAuthUrl(state);
 
@@ -41,142 +270,64 @@ router.get('/google/authorize', authenticate, requireOrganization, async (req: R
  * Handle OAuth callback from Google
  */
 router.get('/google/callback', async (req: Request, res: Response) => {
-  try {
-    const { code, state, error: oauthError } = req.query;
+  const { code, state, error: oauthError } = req.query;
+  // Read before anything can fail, so every redirect goes back to the right page
+  const stateData = state ? decodeState(state) : null;
 
+  try {
     if (oauthError) {
       console.error('OAuth error:', oauthError);
-      res.redirect(
-        `${process.env.FRONTEND_URL}/settings/connections?error=oauth_denied`
-      );
+      res.redirect(callbackUrl(stateData, { error: 'oauth_denied' }));
       return;
     }
 
     if (!code || !state) {
-      res.redirect(
-        `${process.env.FRONTEND_URL}/settings/connections?error=missing_params`
-      );
+      res.redirect(callbackUrl(stateData, { error: 'missing_params' }));
       return;
     }
 
-    // Decode state
-    let stateData: { userId: string; organizationId: string; timestamp: number };
-    try {
-      stateData = JSON.parse(Buffer.from(state as string, 'base64').toString());
-    } catch {
-      res.redirect(
-        `${process.env.FRONTEND_URL}/settings/connections?error=invalid_state`
-      );
+    if (!stateData) {
+      res.redirect(callbackUrl(null, { error: 'invalid_state' }));
       return;
     }
 
     // Check state timestamp (expire after 10 minutes)
     if (Date.now() - stateData.timestamp > 10 * 60 * 1000) {
-      res.redirect(
-        `${process.env.FRONTEND_URL}/settings/connections?error=expired_state`
-      );
+      res.redirect(callbackUrl(stateData, { error: 'expired_state' }));
       return;
     }
 
     // Exchange code for tokens
     const tokens = await exchangeCodeForTokens(code as string);
 
-    // Encrypt tokens
-    const encrypted = encryptTokens({
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-    });
-
-    // Check if connection already exists
-    const existingConnection = await prisma.connection.findUnique({
-      where: {
-        organizationId_provider: {
-          organizationId: stateData.organizationId,
-          provider: 'GOOGLE_ADS',
-        },
-      },
-    });
+    const saved = await saveConnection(stateData, 'GOOGLE_ADS', tokens, [
+      'https://www.googleapis.com/auth/adwords',
+    ]);
 
-    if (existingConnection) {
-      // Update existing connection
-      await prisma.connection.update({
-        where: { id: existingConnection.id },
-        data: {
-          accessTokenEnc: encrypted.accessTokenEnc,
-          refreshTokenEnc: encrypted.refreshTokenEnc,
-          accessTokenExpiry: new Date(tokens.expiryDate),
-          providerEmail: tokens.email,
-          status: 'ACTIVE',
-          errorMessage: null,
-          lastRefreshedAt: new Date(),
-        },
-      });
-    } else {
-      // Create new connection
-      await prisma.connection.create({
-        data: {
-          organizationId: stateData.organizationId,
-          provider: 'GOOGLE_ADS',
-          providerEmail: tokens.email,
-          accessTokenEnc: encrypted.accessTokenEnc,
-          refreshTokenEnc: encrypted.refreshTokenEnc,
-          accessTokenExpiry: new Date(tokens.expiryDate),
-          scopes: ['https://www.googleapis.com/auth/adwords'],
-          status: 'ACTIVE',
-        },
-      });
+    if ('error' in saved) {
+      res.redirect(callbackUrl(stateData, { error: saved.error }));
+      return;
     }
 
-    // Redirect to connections page with success
-    res.redirect(
-      `${process.env.FRONTEND_URL}/settings/connections?success=google_connected`
-    );
+    // Redirect back with success and the connection to pick accounts from
+    res.redirect(callbackUrl(stateData, { success: 'google_connected', connectionId: saved.connection.id }));
   } catch (error) {
     console.error('OAuth callback error:', error);
-    res.redirect(
-      `${process.env.FRONTEND_URL}/settings/connections?error=callback_failed`
-    );
+    res.redirect(callbackUrl(stateData, { error: 'callback_failed' }));
   }
 });
 
 /**
  * GET /api/oauth/google/status
- * Get current Google Ads connection status
+ * Get the status of each of the organization's Google Ads connections
  */
 router.get('/google/status', authenticate, requireOrganization, async (req: Request, res: Response) => {
   try {
-    const connection = await prisma.connection.findUnique({
-      where: {
-        organizationId_provider: {
-          organizationId: req.user!.organizationId!,
-          provider: 'GOOGLE_ADS',
-        },
-      },
-      select: {
-        id: true,
-        status: true,
-        providerEmail: true,
-        lastRefreshedAt: true,
-        errorMessage: true,
-        createdAt: true,
-      },
-    });
-
-    if (!connection) {
-      res.json({ connected: false });
-      return;
-    }
+    const connections = await findRequestedConnections(req, 'GOOGLE_ADS');
 
     res.json({
-      connected: connection.status === 'ACTIVE',
-      connection: {
-        id: connection.id,
-        status: connection.status,
-        email: connection.providerEmail,
-        lastRefreshed: connection.lastRefreshedAt,
-        error: connection.errorMessage,
-        connectedAt: connection.createdAt,
-      },
+      connected: connections.some((c) => c.status === 'ACTIVE'),
+      connections: connections.map(toConnectionStatus),
     });
   } catch (error) {
     console.error('Connection status error:', error);
@@ -186,45 +337,40 @@ router.get('/google/status', authenticate, requireOrganization, async (req: Requ
 
 /**
  * GET /api/oauth/google/customers
- * Get list of accessible Google Ads customers
+ * Get list of Google Ads customers accessible through a connection, including
+ * client accounts under manager (MCC) accounts. Pass ?connectionId= when the
+ * organization has several active connections.
  */
 router.get('/google/customers', authenticate, requireOrganization, async (req: Request, res: Response) => {
   try {
-    const connection = await prisma.connection.findUnique({
-      where: {
-        organizationId_provider: {
-          organizationId: req.user!.organizationId!,
-          provider: 'GOOGLE_ADS',
-        },
-      },
-    });
+    const connections = await findRequestedConnections(req, 'GOOGLE_ADS', 'ACTIVE');
 
-    if (!connection || connection.status !== 'ACTIVE') {
+    if (connections.length === 0) {
       res.status(400).json({ error: 'No active Google Ads connection' });
       return;
     }
 
+    if (connections.length > 1) {
+      res.status(400).json({ error: 'Several active connections; specify connectionId' });
+      return;
+    }
+
+    const [connection] = connections;
+
     // Get accessible customers
     const customers = await listAccessibleCustomers(connection.id);
 
     // Get already linked accounts
-    const linkedAccounts = await prisma.adAccount.findMany({
-      where: {
-        organizationId: req.user!.organizationId!,
-        provider: 'GOOGLE_ADS',
-      },
-      select: { externalId: true },
-    });
-
-    const linkedIds = new Set(linkedAccounts.map((a) => a.externalId));
+    const linkedConnectionIds = await getLinkedConnectionIds(req.user!.organizationId!, 'GOOGLE_ADS');
 
-    // Mark which customers are already linked
+    // Mark which customers are already linked, possibly through another connection
     const customersWithStatus = customers.map((c) => ({
       ...c,
-      isLinked: linkedIds.has(c.customerId),
+      isLinked: linkedConnectionIds.has(c.customerId),
+      linkedConnectionId: linkedConnectionIds.get(c.customerId) ?? null,
     }));
 
-    res.json({ customers: customersWithStatus });
+    res.json({ connectionId: connection.id, customers: customersWithStatus });
   } catch (error) {
     console.error('List customers error:', error);
     res.status(500).json({ error: 'Failed to list customers' });
@@ -233,24 +379,25 @@ router.get('/google/customers', authenticate, requireOrganization, async (req: R
 
 /**
  * DELETE /api/oauth/google/disconnect
- * Disconnect Google Ads connection
+ * Disconnect a Google Ads connection. Pass ?connectionId= when the
+ * organization has several.
  */
 router.delete('/google/disconnect', authenticate, requireOrganization, async (req: Request, res: Response) => {
   try {
-    const connection = await prisma.connection.findUnique({
-      where: {
-        organizationId_provider: {
-          organizationId: req.user!.organizationId!,
-          provider: 'GOOGLE_ADS',
-        },
-      },
-    });
+    const connections = await findRequestedConnections(req, 'GOOGLE_ADS');
 
-    if (!connection) {
+    if (connections.length === 0) {
       res.status(404).json({ error: 'No connection found' });
       return;
     }
 
+    if (connections.length > 1) {
+      res.status(400).json({ error: 'Several connections; specify connectionId' });
+      return;
+    }
+
+    const [connection] = connections;
+
     // Update connection status to disconnected
     await prisma.connection.update({
       where: { id: connection.id },
@@ -276,5 +423,165 @@ router.delete('/google/disconnect', authenticate, requireOrganization, async (re
   }
 });
 
+/**
+ * Register authorize/callback/status/accounts/disconnect routes for a
+ * provider connector under /api/oauth/:slug. These take ?connectionId= the
+ * same way the Google routes do.
+ */
+function registerConnectorRoutes(slug: string, connector: ProviderConnector): void {
+  const { provider } = connector;
+
+  router.get(`/${slug}/authorize`, authenticate, requireOrganization, async (req: Request, res: Response) => {
+    try {
+      const state = await createState(req, provider);
+
+      if (!state) {
+        res.status(404).json({ error: 'Connection not found' });
+        return;
+      }
+
+      const authUrl = connector.generateAuthUrl(state);
+
+      res.json({ authUrl });
+    } catch (error) {
+      console.error(`${provider} OAuth URL generation error:`, error);
+      res.status(500).json({ error: 'Failed to generate authorization URL' });
+    }
+  });
+
+  router.get(`/${slug}/callback`, async (req: Request, res: Response) => {
+    const { state, error: oauthError } = req.query;
+    // TikTok names the authorization code auth_code
+    const code = req.query.code || req.query.auth_code;
+    const stateData = state ? decodeState(state) : null;
+
+    try {
+      if (oauthError) {
+        console.error(`${provider} OAuth error:`, oauthError);
+        res.redirect(callbackUrl(stateData, { error: 'oauth_denied' }));
+        return;
+      }
+
+      if (!code || !state) {
+        res.redirect(callbackUrl(stateData, { error: 'missing_params' }));
+        return;
+      }
+
+      if (!stateData) {
+        res.redirect(callbackUrl(null, { error: 'invalid_state' }));
+        return;
+      }
+
+      // Check state timestamp (expire after 10 minutes)
+      if (Date.now() - stateData.timestamp > 10 * 60 * 1000) {
+        res.redirect(callbackUrl(stateData, { error: 'expired_state' }));
+        return;
+      }
+
+      // Exchange code for tokens
+      const tokens = await connector.exchangeCodeForTokens(code as string);
+
+      const saved = await saveConnection(stateData, provider, tokens, connector.scopes);
+
+      if ('error' in saved) {
+        res.redirect(callbackUrl(stateData, { error: saved.error }));
+        return;
+      }
+
+      // Redirect back with success and the connection to pick accounts from
+      res.redirect(callbackUrl(stateData, { success: `${slug}_connected`, connectionId: saved.connection.id }));
+    } catch (error) {
+      console.error(`${provider} OAuth callback error:`, error);
+      res.redirect(callbackUrl(stateData, { error: 'callback_failed' }));
+    }
+  });
+
+  router.get(`/${slug}/status`, authenticate, requireOrganization, async (req: Request, res: Response) => {
+    try {
+      const connections = await findRequestedConnections(req, provider);
+
+      res.json({
+        connected: connections.some((c) => c.status === 'ACTIVE'),
+        connections: connections.map(toConnectionStatus),
+      });
+    } catch (error) {
+      console.error(`${provider} connection status error:`, error);
+      res.status(500).json({ error: 'Failed to get connection status' });
+    }
+  });
+
+  router.get(`/${slug}/accounts`, authenticate, requireOrganization, async (req: Request, res: Response) => {
+    try {
+      const connections = await findRequestedConnections(req, provider, 'ACTIVE');
+
+      if (connections.length === 0) {
+        res.status(400).json({ error: 'No active connection' });
+        return;
+      }
+
+      if (connections.length > 1) {
+        res.status(400).json({ error: 'Several active connections; specify connectionId' });
+        return;
+      }
+
+      const [connection] = connections;
+
+      const accounts = await connector.listAccounts(connection.id);
+
+      // Get already linked accounts
+      const linkedConnectionIds = await getLinkedConnectionIds(req.user!.organizationId!, provider);
+
+      res.json({
+        connectionId: connection.id,
+        accounts: accounts.map((a) => ({
+          ...a,
+          isLinked: linkedConnectionIds.has(a.externalId),
+          linkedConnectionId: linkedConnectionIds.get(a.externalId) ?? null,
+        })),
+      });
+    } catch (error) {
+      console.error(`${provider} list accounts error:`, error);
+      res.status(500).json({ error: 'Failed to list accounts' });
+    }
+  });
+
+  router.delete(`/${slug}/disconnect`, authenticate, requireOrganization, async (req: Request, res: Response) => {
+    try {
+      const connections = await findRequestedConnections(req, provider);
+
+      if (connections.length === 0) {
+        res.status(404).json({ error: 'No connection found' });
+        return;
+      }
+
+      if (connections.length > 1) {
+        res.status(400).json({ error: 'Several connections; specify connectionId' });
+        return;
+      }
+
+      const [connection] = connections;
+
+      await prisma.connection.update({
+        where: { id: connection.id },
+        data: { status: 'DISCONNECTED' },
+      });
+
+      // Disable all linked ad accounts
+      await prisma.adAccount.updateMany({
+        where: { connectionId: connection.id },
+        data: { isEnabled: false },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`${provider} disconnect error:`, error);
+      res.status(500).json({ error: 'Failed to disconnect' });
+    }
+  });
+}
+
+registerConnectorRoutes('meta', getConnector('META_ADS'));
+registerConnectorRoutes('tiktok', getConnector('TIKTOK_ADS'));
+
 export default router;
 
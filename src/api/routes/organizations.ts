@@ -1,4 +1,4 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import prisma from '../../lib/prisma';
 import { authenticate, requireOrganization, requireAdmin } from '../middleware/auth';
@@ -15,6 +15,15 @@ const inviteMemberSchema = z.object({
   role: z.enum(['ADMIN', 'VIEWER']).default('VIEWER'),
 });
 
+/**
+ * Act in the organization named in the path, so requireOrganization and
+ * requireAdmin check the user's membership there and not in their default
+ */
+function useOrganizationParam(req: Request, _res: Response, next: NextFunction): void {
+  req.headers['x-organization-id'] = req.params.id;
+  next();
+}
+
 /**
  * GET /api/organizations
  * Get all organizations the user belongs to
@@ -58,7 +67,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
  * GET /api/organizations/:id
  * Get organization details
  */
-router.get('/:id', authenticate, requireOrganization, async (req: Request, res: Response) => {
+router.get('/:id', authenticate, useOrganizationParam, requireOrganization, async (req: Request, res: Response) => {
   try {
     const organization = await prisma.organization.findUnique({
       where: { id: req.params.id },
@@ -122,7 +131,7 @@ router.get('/:id', authenticate, requireOrganization, async (req: Request, res:
  * PATCH /api/organizations/:id
  * Update organization details
  */
-router.patch('/:id', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/:id', authenticate, useOrganizationParam, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
   try {
     const data = updateOrgSchema.parse(req.body);
 
@@ -146,7 +155,7 @@ router.patch('/:id', authenticate, requireOrganization, requireAdmin, async (req
  * GET /api/organizations/:id/members
  * Get organization members
  */
-router.get('/:id/members', authenticate, requireOrganization, async (req: Request, res: Response) => {
+router.get('/:id/members', authenticate, useOrganizationParam, requireOrganization, async (req: Request, res: Response) => {
   try {
     const memberships = await prisma.membership.findMany({
       where: { organizationId: req.params.id },
@@ -182,7 +191,7 @@ router.get('/:id/members', authenticate, requireOrganization, async (req: Reques
  * POST /api/organizations/:id/members
  * Invite a new member to organization
  */
-router.post('/:id/members', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+router.post('/:id/members', authenticate, useOrganizationParam, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
   try {
     const data = inviteMemberSchema.parse(req.body);
 
@@ -256,15 +265,33 @@ router.post('/:id/members', authenticate, requireOrganization, requireAdmin, asy
  * PATCH /api/organizations/:id/members/:memberId
  * Update member role
  */
-router.patch('/:id/members/:memberId', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+router.patch('/:id/members/:memberId', authenticate, useOrganizationParam, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
   try {
     const { role } = z.object({ role: z.enum(['ADMIN', 'VIEWER']) }).parse(req.body);
 
+    const member = await prisma.membership.findFirst({
+      where: { id: req.params.memberId, organizationId: req.params.id },
+    });
+
+    if (!member) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    // Don't allow demoting the last admin
+    if (member.role === 'ADMIN' && role !== 'ADMIN') {
+      const adminCount = await prisma.membership.count({
+        where: { organizationId: req.params.id, role: 'ADMIN' },
+      });
+
+      if (adminCount <= 1) {
+        res.status(400).json({ error: 'Cannot demote the last admin' });
+        return;
+      }
+    }
+
     const membership = await prisma.membership.update({
-      where: {
-        id: req.params.memberId,
-        organizationId: req.params.id,
-      },
+      where: { id: member.id },
       data: { role },
     });
 
@@ -283,7 +310,7 @@ router.patch('/:id/members/:memberId', authenticate, requireOrganization, requir
  * DELETE /api/organizations/:id/members/:memberId
  * Remove a member from organization
  */
-router.delete('/:id/members/:memberId', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/:id/members/:memberId', authenticate, useOrganizationParam, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
   try {
     // Don't allow removing the last admin
     const adminCount = await prisma.membership.count({
@@ -293,8 +320,8 @@ router.delete('/:id/members/:memberId', authenticate, requireOrganization, requi
       },
     });
 
-    const memberToRemove = await prisma.membership.findUnique({
-      where: { id: req.params.memberId },
+    const memberToRemove = await prisma.membership.findFirst({
+      where: { id: req.params.memberId, organizationId: req.params.id },
     });
 
     if (!memberToRemove) {
@@ -1,8 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { parseExpression } from 'cron-parser';
 import prisma from '../../lib/prisma';
 import { authenticate, requireOrganization, requireAdmin } from '../middleware/auth';
-import { addSyncJob, getQueueStats, QUEUE_NAMES } from '../../lib/queue';
+import {
+  addSyncJob,
+  cancelBackfill,
+  cancelSyncJob,
+  getQueueStats,
+  QUEUE_NAMES,
+  resumeBackfill,
+  retrySyncJob,
+  scheduleOrganizationSyncs,
+} from '../../lib/queue';
+import { subscribeToSyncEvents } from '../../lib/sync-events';
 
 const router = Router();
 
@@ -13,6 +24,59 @@ const manualSyncSchema = z.object({
   dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 });
 
+const failureKindSchema = z.enum([
+  'AUTH_EXPIRED',
+  'PERMISSION_DENIED',
+  'ACCOUNT_DISABLED',
+  'QUOTA',
+  'TRANSIENT',
+  'BAD_QUERY',
+  'DATA_ERROR',
+  'UNKNOWN',
+]);
+
+// Most dead-lettered jobs a single bulk retry will re-queue
+const BULK_RETRY_LIMIT = 500;
+
+const bulkRetrySchema = z.object({
+  jobIds: z.array(z.string().uuid()).min(1).max(BULK_RETRY_LIMIT).optional(),
+  failureKind: failureKindSchema.optional(),
+  accountId: z.string().uuid().optional(),
+});
+
+const isValidCron = (pattern: string) => {
+  try {
+    parseExpression(pattern);
+    return pattern.trim().split(/\s+/).length === 5;
+  } catch {
+    return false;
+  }
+};
+
+const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const updateScheduleSchema = z.object({
+  dailySyncCron: z.string().refine(isValidCron, 'Invalid cron pattern').optional(),
+  intradaySyncCron: z.string().refine(isValidCron, 'Invalid cron pattern').nullable().optional(),
+  syncTimezone: z.string().refine(isValidTimezone, 'Invalid IANA timezone').optional(),
+  conversionLookbackDays: z.number().int().min(1).max(90).optional(),
+});
+
+const scheduleSelect = {
+  id: true,
+  dailySyncCron: true,
+  intradaySyncCron: true,
+  syncTimezone: true,
+  conversionLookbackDays: true,
+} as const;
+
 /**
  * GET /api/sync/status
  * Get sync status for all accounts
@@ -23,6 +87,7 @@ router.get('/status', authenticate, requireOrganization, async (req: Request, re
       where: {
         organizationId: req.user!.organizationId!,
         isEnabled: true,
+        isManager: false,
       },
       select: {
         id: true,
@@ -31,6 +96,7 @@ router.get('/status', authenticate, requireOrganization, async (req: Request, re
         syncStatus: true,
         lastSyncedAt: true,
         syncJobs: {
+          where: { parentJobId: null },
           orderBy: { createdAt: 'desc' },
           take: 1,
           select: {
@@ -69,8 +135,10 @@ router.get('/status', authenticate, requireOrganization, async (req: Request, re
  */
 router.get('/jobs', authenticate, requireOrganization, async (req: Request, res: Response) => {
   try {
-    const { accountId, status, limit = '20', offset = '0' } = z.object({
+    const { accountId, status, runId, parentId, limit = '20', offset = '0' } = z.object({
       accountId: z.string().uuid().optional(),
+      runId: z.string().uuid().optional(),
+      parentId: z.string().uuid().optional(),
       status: z.enum(['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
       limit: z.string().regex(/^\d+$/).default('20'),
       offset: z.string().regex(/^\d+$/).default('0'),
@@ -83,6 +151,9 @@ router.get('/jobs', authenticate, requireOrganization, async (req: Request, res:
         },
         ...(accountId && { adAccountId: accountId }),
         ...(status && { status }),
+        ...(runId && { syncRunId: runId }),
+        // Backfill chunks are listed under their parent
+        parentJobId: parentId ?? null,
       },
       include: {
         adAccount: {
@@ -101,6 +172,9 @@ router.get('/jobs', authenticate, requireOrganization, async (req: Request, res:
         },
         ...(accountId && { adAccountId: accountId }),
         ...(status && { status }),
+        ...(runId && { syncRunId: runId }),
+        // Backfill chunks are listed under their parent
+        parentJobId: parentId ?? null,
       },
     });
 
@@ -117,7 +191,13 @@ router.get('/jobs', authenticate, requireOrganization, async (req: Request, res:
         startedAt: j.startedAt,
         completedAt: j.completedAt,
         errorMessage: j.errorMessage,
+        failureKind: j.failureKind,
+        attempts: j.attempts,
+        deadLetteredAt: j.deadLetteredAt,
         metrics: j.metrics,
+        syncRunId: j.syncRunId,
+        parentJobId: j.parentJobId,
+        initiatedBy: j.initiatedBy,
         createdAt: j.createdAt,
       })),
       pagination: {
@@ -136,6 +216,274 @@ router.get('/jobs', authenticate, requireOrganization, async (req: Request, res:
   }
 });
 
+/**
+ * GET /api/sync/dead-letter
+ * Get jobs that failed permanently and need attention
+ */
+router.get('/dead-letter', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { failureKind, accountId, limit, offset } = z.object({
+      failureKind: failureKindSchema.optional(),
+      accountId: z.string().uuid().optional(),
+      limit: z.string().regex(/^\d+$/).default('20'),
+      offset: z.string().regex(/^\d+$/).default('0'),
+    }).parse(req.query);
+
+    const deadLettered = {
+      adAccount: {
+        organizationId: req.user!.organizationId!,
+      },
+      status: 'FAILED' as const,
+      deadLetteredAt: { not: null },
+      ...(accountId && { adAccountId: accountId }),
+    };
+
+    const [jobs, total, byKind] = await Promise.all([
+      prisma.syncJob.findMany({
+        where: {
+          ...deadLettered,
+          ...(failureKind && { failureKind }),
+        },
+        include: {
+          adAccount: {
+            select: { name: true, externalId: true },
+          },
+        },
+        orderBy: { deadLetteredAt: 'desc' },
+        take: parseInt(limit),
+        skip: parseInt(offset),
+      }),
+      prisma.syncJob.count({
+        where: {
+          ...deadLettered,
+          ...(failureKind && { failureKind }),
+        },
+      }),
+      prisma.syncJob.groupBy({
+        by: ['failureKind'],
+        where: deadLettered,
+        _count: { _all: true },
+      }),
+    ]);
+
+    res.json({
+      jobs: jobs.map((j) => ({
+        id: j.id,
+        accountId: j.adAccountId,
+        accountName: j.adAccount.name,
+        accountExternalId: j.adAccount.externalId,
+        jobType: j.jobType,
+        dateFrom: j.dateFrom,
+        dateTo: j.dateTo,
+        errorMessage: j.errorMessage,
+        failureKind: j.failureKind,
+        attempts: j.attempts,
+        parentJobId: j.parentJobId,
+        initiatedBy: j.initiatedBy,
+        deadLetteredAt: j.deadLetteredAt,
+      })),
+      counts: Object.fromEntries(byKind.map((k) => [k.failureKind ?? 'UNKNOWN', k._count._all])),
+      pagination: {
+        total,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Get dead-letter jobs error:', error);
+    res.status(500).json({ error: 'Failed to get dead-letter jobs' });
+  }
+});
+
+/**
+ * GET /api/sync/events
+ * Server-Sent Events stream of sync job progress for the organization
+ */
+router.get('/events', authenticate, requireOrganization, (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribeToSyncEvents(req.user!.organizationId!, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 30000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * GET /api/sync/schedule
+ * Get the organization's sync schedule
+ */
+router.get('/schedule', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const organization = await prisma.organization.findUnique({
+      where: { id: req.user!.organizationId! },
+      select: scheduleSelect,
+    });
+
+    if (!organization) {
+      res.status(404).json({ error: 'Organization not found' });
+      return;
+    }
+
+    const { id, ...schedule } = organization;
+    res.json({ schedule });
+  } catch (error) {
+    console.error('Get sync schedule error:', error);
+    res.status(500).json({ error: 'Failed to get sync schedule' });
+  }
+});
+
+/**
+ * PUT /api/sync/schedule
+ * Update the organization's sync schedule and re-register its repeatable jobs
+ */
+router.put('/schedule', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = updateScheduleSchema.parse(req.body);
+
+    const organization = await prisma.organization.update({
+      where: { id: req.user!.organizationId! },
+      data,
+      select: scheduleSelect,
+    });
+
+    await scheduleOrganizationSyncs(organization.id);
+
+    const { id, ...schedule } = organization;
+    res.json({ schedule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Update sync schedule error:', error);
+    res.status(500).json({ error: 'Failed to update sync schedule' });
+  }
+});
+
+/**
+ * GET /api/sync/runs
+ * Get scheduled run history
+ */
+router.get('/runs', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { jobType, limit, offset } = z.object({
+      jobType: z.enum(['DAILY_SYNC', 'INTRADAY_SYNC']).optional(),
+      limit: z.string().regex(/^\d+$/).default('20'),
+      offset: z.string().regex(/^\d+$/).default('0'),
+    }).parse(req.query);
+
+    const where = {
+      organizationId: req.user!.organizationId!,
+      ...(jobType && { jobType }),
+    };
+
+    const [runs, total] = await Promise.all([
+      prisma.syncRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        take: parseInt(limit),
+        skip: parseInt(offset),
+      }),
+      prisma.syncRun.count({ where }),
+    ]);
+
+    res.json({
+      runs: runs.map((r) => ({
+        id: r.id,
+        jobType: r.jobType,
+        status: r.status,
+        accountsQueued: r.accountsQueued,
+        accountsFailed: r.accountsFailed,
+        errorMessage: r.errorMessage,
+        startedAt: r.startedAt,
+        completedAt: r.completedAt,
+      })),
+      pagination: {
+        total,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Get sync runs error:', error);
+    res.status(500).json({ error: 'Failed to get sync runs' });
+  }
+});
+
+/**
+ * GET /api/sync/runs/:id
+ * Get a scheduled run with the status of each account's job
+ */
+router.get('/runs/:id', authenticate, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const run = await prisma.syncRun.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId!,
+      },
+      include: {
+        syncJobs: {
+          include: {
+            adAccount: {
+              select: { name: true, externalId: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    const { syncJobs, organizationId, ...details } = run;
+
+    res.json({
+      run: {
+        ...details,
+        jobs: syncJobs.map((j) => ({
+          id: j.id,
+          accountId: j.adAccountId,
+          accountName: j.adAccount.name,
+          accountExternalId: j.adAccount.externalId,
+          status: j.status,
+          dateFrom: j.dateFrom,
+          dateTo: j.dateTo,
+          startedAt: j.startedAt,
+          completedAt: j.completedAt,
+          errorMessage: j.errorMessage,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get sync run error:', error);
+    res.status(500).json({ error: 'Failed to get sync run' });
+  }
+});
+
 /**
  * POST /api/sync/manual
  * Trigger a manual sync for an account
@@ -162,6 +510,11 @@ router.post('/manual', authenticate, requireOrganization, requireAdmin, async (r
       return;
     }
 
+    if (account.isManager) {
+      res.status(400).json({ error: 'Manager accounts have no data of their own. Sync their client accounts instead.' });
+      return;
+    }
+
     if (account.connection.status !== 'ACTIVE') {
       res.status(400).json({ error: 'Connection is not active. Please reconnect.' });
       return;
@@ -192,6 +545,7 @@ router.post('/manual', authenticate, requireOrganization, requireAdmin, async (r
         status: 'PENDING',
         dateFrom: new Date(data.dateFrom),
         dateTo: new Date(data.dateTo),
+        initiatedBy: req.user!.id,
       },
     });
 
@@ -212,8 +566,8 @@ router.post('/manual', authenticate, requireOrganization, requireAdmin, async (r
       provider: account.provider,
       organizationId,
       initiatedBy: req.user!.id,
+      syncJobId: syncJob.id,
     }, {
-      jobId: syncJob.id,
       priority: 1, // Higher priority for manual syncs
     });
 
@@ -257,9 +611,165 @@ router.get('/queue-stats', authenticate, requireOrganization, requireAdmin, asyn
   }
 });
 
+/**
+ * POST /api/sync/jobs/:id/resume
+ * Re-queue the failed or cancelled chunks of a backfill
+ */
+router.post('/jobs/:id/resume', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const job = await prisma.syncJob.findFirst({
+      where: {
+        id: req.params.id,
+        adAccount: {
+          organizationId: req.user!.organizationId!,
+        },
+        chunks: { some: {} },
+      },
+      include: {
+        adAccount: {
+          include: { connection: true },
+        },
+      },
+    });
+
+    if (!job) {
+      res.status(404).json({ error: 'Backfill not found' });
+      return;
+    }
+
+    if (job.adAccount.connection.status !== 'ACTIVE') {
+      res.status(400).json({ error: 'Connection is not active. Please reconnect.' });
+      return;
+    }
+
+    const requeued = await resumeBackfill(job.id, req.user!.id);
+
+    if (requeued === 0) {
+      res.status(400).json({ error: 'No failed or cancelled chunks to resume' });
+      return;
+    }
+
+    res.json({ success: true, message: `${requeued} chunk(s) re-queued`, requeued });
+  } catch (error) {
+    console.error('Resume backfill error:', error);
+    res.status(500).json({ error: 'Failed to resume backfill' });
+  }
+});
+
+/**
+ * POST /api/sync/jobs/retry
+ * Re-queue dead-lettered jobs, optionally narrowed to specific jobs, a failure
+ * kind or an account. Jobs whose connection is not active are skipped.
+ */
+router.post('/jobs/retry', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { jobIds, failureKind, accountId } = bulkRetrySchema.parse(req.body);
+
+    const jobs = await prisma.syncJob.findMany({
+      where: {
+        adAccount: {
+          organizationId: req.user!.organizationId!,
+        },
+        status: 'FAILED',
+        deadLetteredAt: { not: null },
+        ...(jobIds && { id: { in: jobIds } }),
+        ...(failureKind && { failureKind }),
+        ...(accountId && { adAccountId: accountId }),
+      },
+      select: {
+        id: true,
+        adAccount: {
+          select: {
+            connection: { select: { status: true } },
+          },
+        },
+      },
+      orderBy: { deadLetteredAt: 'asc' },
+      take: BULK_RETRY_LIMIT,
+    });
+
+    let retried = 0;
+    let skipped = 0;
+
+    for (const job of jobs) {
+      // Retrying before the connection is fixed would only dead-letter it again
+      if (job.adAccount.connection.status !== 'ACTIVE') {
+        skipped++;
+        continue;
+      }
+
+      await retrySyncJob(job.id, req.user!.id);
+      retried++;
+    }
+
+    res.json({
+      success: true,
+      message: skipped > 0
+        ? `${retried} job(s) re-queued, ${skipped} skipped (connection not active)`
+        : `${retried} job(s) re-queued`,
+      retried,
+      skipped,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation failed', details: error.errors });
+      return;
+    }
+    console.error('Bulk retry error:', error);
+    res.status(500).json({ error: 'Failed to retry jobs' });
+  }
+});
+
+/**
+ * POST /api/sync/jobs/:id/retry
+ * Re-queue a failed or cancelled job (or the failed chunks of a backfill)
+ */
+router.post('/jobs/:id/retry', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const job = await prisma.syncJob.findFirst({
+      where: {
+        id: req.params.id,
+        adAccount: {
+          organizationId: req.user!.organizationId!,
+        },
+        status: { in: ['FAILED', 'CANCELLED'] },
+      },
+      include: {
+        adAccount: {
+          include: { connection: true },
+        },
+        _count: { select: { chunks: true } },
+      },
+    });
+
+    if (!job) {
+      res.status(404).json({ error: 'Job not found or not failed' });
+      return;
+    }
+
+    if (job.adAccount.connection.status !== 'ACTIVE') {
+      res.status(400).json({ error: 'Connection is not active. Please reconnect.' });
+      return;
+    }
+
+    if (job._count.chunks > 0) {
+      const requeued = await resumeBackfill(job.id, req.user!.id);
+      res.json({ success: true, message: `${requeued} chunk(s) re-queued`, requeued });
+      return;
+    }
+
+    await retrySyncJob(job.id, req.user!.id);
+
+    res.json({ success: true, message: 'Job re-queued', status: 'PENDING' });
+  } catch (error) {
+    console.error('Retry job error:', error);
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
+});
+
 /**
  * DELETE /api/sync/jobs/:id
- * Cancel a pending sync job
+ * Cancel a pending or running sync job (or every unfinished chunk of a backfill)
  */
 router.delete('/jobs/:id', authenticate, requireOrganization, requireAdmin, async (req: Request, res: Response) => {
   try {
@@ -271,6 +781,9 @@ router.delete('/jobs/:id', authenticate, requireOrganization, requireAdmin, asyn
         },
         status: { in: ['PENDING', 'RUNNING'] },
       },
+      include: {
+        _count: { select: { chunks: true } },
+      },
     });
 
     if (!job) {
@@ -278,15 +791,27 @@ router.delete('/jobs/:id', authenticate, requireOrganization, requireAdmin, asyn
       return;
     }
 
-    await prisma.syncJob.update({
-      where: { id: job.id },
-      data: {
-        status: 'CANCELLED',
-        completedAt: new Date(),
-      },
-    });
+    if (job._count.chunks > 0) {
+      const { cancelled, cancelling } = await cancelBackfill(job.id);
 
-    res.json({ success: true, message: 'Job cancelled' });
+      res.json({
+        success: true,
+        message: cancelling > 0
+          ? `${cancelled} chunk(s) cancelled, ${cancelling} stopping`
+          : `${cancelled} chunk(s) cancelled`,
+      });
+      return;
+    }
+
+    const result = await cancelSyncJob(job.id);
+
+    res.json({
+      success: true,
+      status: result === 'cancelled' ? 'CANCELLED' : 'RUNNING',
+      message: result === 'cancelled'
+        ? 'Job cancelled'
+        : 'Cancellation requested; the job will stop at its next checkpoint',
+    });
   } catch (error) {
     console.error('Cancel job error:', error);
     res.status(500).json({ error: 'Failed to cancel job' });
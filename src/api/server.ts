@@ -9,7 +9,10 @@ import oauthRoutes from './routes/oauth';
 import organizationRoutes from './routes/organizations';
 import accountRoutes from './routes/accounts';
 import metricsRoutes from './routes/metrics';
+import campaignRoutes from './routes/campaigns';
 import syncRoutes from './routes/sync';
+import connectionRoutes from './routes/connections';
+import notificationRoutes from './routes/notifications';
 
 const app: Express = express();
 const PORT = process.env.API_PORT || 4000;
@@ -50,7 +53,10 @@ app.use('/api/oauth', oauthRoutes);
 app.use('/api/organizations', organizationRoutes);
 app.use('/api/accounts', accountRoutes);
 app.use('/api/metrics', metricsRoutes);
+app.use('/api/campaigns', campaignRoutes);
 app.use('/api/sync', syncRoutes);
+app.use('/api/connections', connectionRoutes);
+app.use('/api/notifications', notificationRoutes);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
@@ -27,6 +27,7 @@ const mockAccounts = [
     isEnabled: true,
     syncStatus: 'SYNCED',
     lastSyncedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+    connectionEmail: 'ads@company.com',
     campaignCount: 12,
   },
   {
@@ -38,6 +39,7 @@ const mockAccounts = [
     isEnabled: true,
     syncStatus: 'SYNCING',
     lastSyncedAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
+    connectionEmail: 'ads@company.com',
     campaignCount: 5,
   },
   {
@@ -49,6 +51,7 @@ const mockAccounts = [
     isEnabled: true,
     syncStatus: 'ERROR',
     lastSyncedAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+    connectionEmail: 'emea-ads@company.com',
     campaignCount: 8,
   },
   {
@@ -60,16 +63,25 @@ const mockAccounts = [
     isEnabled: false,
     syncStatus: 'PENDING',
     lastSyncedAt: null,
+    connectionEmail: 'ads@company.com',
     campaignCount: 3,
   },
 ];
 
-const mockConnection = {
-  connected: true,
-  email: 'ads@company.com',
-  status: 'ACTIVE',
-  lastRefreshed: new Date().toISOString(),
-};
+const mockConnections = [
+  {
+    id: 'c1',
+    email: 'ads@company.com',
+    status: 'ACTIVE',
+    lastRefreshed: new Date().toISOString(),
+  },
+  {
+    id: 'c2',
+    email: 'emea-ads@company.com',
+    status: 'EXPIRED',
+    lastRefreshed: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+  },
+];
 
 function SyncStatusBadge({ status }: { status: string }) {
   const config: Record<string, { icon: React.ElementType; label: string; className: string }> = {
@@ -92,12 +104,15 @@ function SyncStatusBadge({ status }: { status: string }) {
 export default function AccountsPage() {
   const [isConnecting, setIsConnecting] = useState(false);
 
-  const handleConnectGoogle = async () => {
+  // Connects another Google login, or re-authorizes an existing connection
+  const handleConnectGoogle = async (connectionId?: string) => {
     setIsConnecting(true);
     // In a real app, this would redirect to OAuth
     setTimeout(() => {
       setIsConnecting(false);
-      window.location.href = '/api/v1/oauth/google/authorize';
+      window.location.href = connectionId
+        ? `/api/v1/oauth/google/authorize?connectionId=${connectionId}`
+        : '/api/v1/oauth/google/authorize';
     }, 500);
   };
 
@@ -109,7 +124,7 @@ export default function AccountsPage() {
           <h1 className="text-2xl font-bold">Ad Accounts</h1>
           <p className="text-muted-foreground">Manage your connected advertising accounts</p>
         </div>
-        <Button onClick={handleConnectGoogle} disabled={isConnecting}>
+        <Button onClick={() => handleConnectGoogle()} disabled={isConnecting}>
           {isConnecting ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -127,53 +142,66 @@ export default function AccountsPage() {
       {/* Connection Status */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Google Ads Connection</CardTitle>
+          <CardTitle className="text-lg">Google Ads Connections</CardTitle>
+          <CardDescription>Each Google login has its own accounts and authorization</CardDescription>
         </CardHeader>
         <CardContent>
-          {mockConnection.connected ? (
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-4">
-                <div className="w-12 h-12 rounded-lg bg-violet-500/10 flex items-center justify-center">
-                  <svg viewBox="0 0 24 24" className="w-6 h-6 text-primary">
-                    <path
-                      fill="currentColor"
-                      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                    />
-                    <path
-                      fill="currentColor"
-                      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                    />
-                  </svg>
-                </div>
-                <div>
-                  <p className="font-medium">{mockConnection.email}</p>
-                  <p className="text-sm text-muted-foreground">
-                    Connected • Last refreshed {formatDate(mockConnection.lastRefreshed)}
-                  </p>
+          {mockConnections.length > 0 ? (
+            <div className="space-y-4">
+              {mockConnections.map((connection) => (
+                <div key={connection.id} className="flex items-center justify-between">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-lg bg-violet-500/10 flex items-center justify-center">
+                      <svg viewBox="0 0 24 24" className="w-6 h-6 text-primary">
+                        <path
+                          fill="currentColor"
+                          d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                        />
+                        <path
+                          fill="currentColor"
+                          d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                        />
+                        <path
+                          fill="currentColor"
+                          d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                        />
+                        <path
+                          fill="currentColor"
+                          d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                        />
+                      </svg>
+                    </div>
+                    <div>
+                      <p className="font-medium">{connection.email}</p>
+                      {connection.status === 'ACTIVE' ? (
+                        <p className="text-sm text-muted-foreground">
+                          Connected • Last refreshed {formatDate(connection.lastRefreshed)}
+                        </p>
+                      ) : (
+                        <p className="text-sm text-red-400">Authorization expired • Reconnect to resume syncing</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleConnectGoogle(connection.id)}>
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      {connection.status === 'ACTIVE' ? 'Refresh Token' : 'Reconnect'}
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                      Disconnect
+                    </Button>
+                  </div>
                 </div>
-              </div>
-              <div className="flex items-center gap-2">
-                <Button variant="outline" size="sm">
-                  <RefreshCw className="w-4 h-4 mr-2" />
-                  Refresh Token
-                </Button>
-                <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
-                  Disconnect
-                </Button>
-              </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => handleConnectGoogle()} disabled={isConnecting}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Google Login
+              </Button>
             </div>
           ) : (
             <div className="text-center py-8">
               <p className="text-muted-foreground mb-4">No Google Ads account connected</p>
-              <Button onClick={handleConnectGoogle}>
+              <Button onClick={() => handleConnectGoogle()}>
                 <Plus className="w-4 h-4 mr-2" />
                 Connect Google Ads
               </Button>
@@ -224,6 +252,7 @@ export default function AccountsPage() {
                       <p className="text-sm text-muted-foreground">
                         ID: {account.externalId} • {account.currency} • {account.campaignCount} campaigns
                       </p>
+                      <p className="text-xs text-muted-foreground">Via {account.connectionEmail}</p>
                       {account.lastSyncedAt && (
                         <p className="text-xs text-muted-foreground mt-1">
                           Last synced: {formatDate(account.lastSyncedAt)}
@@ -0,0 +1,697 @@
+'use client';
+
+import { useState, useEffect, useMemo, Fragment } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Calendar,
+  RefreshCw,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  ExternalLink,
+  Pause,
+  Play,
+} from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/src/components/ui/card';
+import { Button } from '@/src/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/src/components/ui/select';
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  formatDateForAPI,
+  formatNumber,
+  getDateRangePresets,
+} from '@/src/lib/utils';
+import {
+  ApiError,
+  getCampaign,
+  getCampaignAdGroups,
+  getCampaignAds,
+  getMetrics,
+  AdGroupRow,
+  AdRow,
+  CampaignDetail,
+  CursorPagination,
+  MetricsRow,
+} from '@/src/lib/api-client';
+
+type DateRangeKey = keyof ReturnType<typeof getDateRangePresets>;
+
+interface TrendPoint {
+  date: string;
+  spend: number;
+  clicks: number;
+}
+
+interface AdsState {
+  ads: AdRow[];
+  pagination: CursorPagination | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const PAGE_SIZE = 50;
+
+// Parse an API date (YYYY-MM-DD) as a local calendar day
+function parseDay(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+// Campaign dates are calendar days stored at UTC midnight
+function formatDay(timestamp: string): string {
+  return formatDate(parseDay(timestamp.slice(0, 10)));
+}
+
+function formatChartDate(date: string): string {
+  return parseDay(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// One point per day in the range, with zeros for days that have no rows
+function fillDays(rows: MetricsRow[], startDate: string, endDate: string): TrendPoint[] {
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+  const points: TrendPoint[] = [];
+
+  for (let day = parseDay(startDate); day <= parseDay(endDate); day.setDate(day.getDate() + 1)) {
+    const date = formatDateForAPI(day);
+    const row = byDate.get(date);
+    points.push({
+      date,
+      spend: Number(row?.spend ?? 0),
+      clicks: row?.clicks ?? 0,
+    });
+  }
+
+  return points;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium',
+        status === 'ENABLED'
+          ? 'bg-violet-500/10 text-violet-400'
+          : status === 'PAUSED'
+          ? 'bg-amber-500/10 text-amber-400'
+          : 'bg-gray-500/10 text-gray-400'
+      )}
+    >
+      {status === 'ENABLED' ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+      {status}
+    </span>
+  );
+}
+
+function RoasValue({ roas }: { roas: number }) {
+  return (
+    <span
+      className={cn('font-medium', roas >= 3 ? 'text-green-500' : roas >= 2 ? 'text-yellow-500' : 'text-red-500')}
+    >
+      {roas.toFixed(1)}x
+    </span>
+  );
+}
+
+function DetailItem({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="font-medium mt-0.5">{value}</p>
+    </div>
+  );
+}
+
+function AdsTable({
+  state,
+  currency,
+  onLoadMore,
+}: {
+  state: AdsState;
+  currency: string;
+  onLoadMore: () => void;
+}) {
+  if (state.error) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-sm text-red-500">
+        <AlertCircle className="w-4 h-4" />
+        {state.error}
+      </div>
+    );
+  }
+
+  if (state.ads.length === 0) {
+    return state.isLoading ? (
+      <div className="h-10 bg-muted rounded animate-pulse" />
+    ) : (
+      <p className="py-4 text-center text-sm text-muted-foreground">No ads in this ad group</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">Ad</th>
+            <th className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">Status</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Spend</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Impr.</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Clicks</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">CTR</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Conv.</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">ROAS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {state.ads.map((ad) => (
+            <tr key={ad.id} className="border-b border-border/50 last:border-0">
+              <td className="py-2 px-3 max-w-md">
+                <p className="font-medium text-sm">{ad.headline || ad.name || ad.externalId}</p>
+                {ad.description && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">{ad.description}</p>
+                )}
+                {ad.finalUrl && (
+                  <a
+                    href={ad.finalUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline break-all"
+                  >
+                    {ad.finalUrl}
+                    <ExternalLink className="w-3 h-3 shrink-0" />
+                  </a>
+                )}
+              </td>
+              <td className="py-2 px-3">
+                <StatusBadge status={ad.status} />
+              </td>
+              <td className="py-2 px-3 text-right text-sm font-medium">
+                {formatCurrency(Number(ad.spend), currency)}
+              </td>
+              <td className="py-2 px-3 text-right text-sm text-muted-foreground">{formatNumber(ad.impressions)}</td>
+              <td className="py-2 px-3 text-right text-sm text-muted-foreground">{formatNumber(ad.clicks)}</td>
+              <td className="py-2 px-3 text-right text-sm text-muted-foreground">{ad.ctr.toFixed(2)}%</td>
+              <td className="py-2 px-3 text-right text-sm text-muted-foreground">{formatNumber(ad.conversions)}</td>
+              <td className="py-2 px-3 text-right text-sm">
+                <RoasValue roas={ad.roas} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {state.pagination?.hasMore && (
+        <div className="flex justify-center">
+          <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={state.isLoading}>
+            {state.isLoading && <RefreshCw className="w-3 h-3 mr-2 animate-spin" />}
+            Load More Ads
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CampaignDetailPage({ params }: { params: { id: string } }) {
+  const campaignId = params.id;
+
+  const [dateRange, setDateRange] = useState<DateRangeKey>('last30Days');
+  const [campaign, setCampaign] = useState<CampaignDetail | null>(null);
+  const [trend, setTrend] = useState<TrendPoint[]>([]);
+  const [adGroups, setAdGroups] = useState<AdGroupRow[]>([]);
+  const [adGroupPagination, setAdGroupPagination] = useState<CursorPagination | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Ads per expanded ad group, loaded on first expand
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [adsByGroup, setAdsByGroup] = useState<Record<string, AdsState>>({});
+
+  const presets = getDateRangePresets();
+
+  // Shared by the page load, "Load More" and the ad tables, so they all
+  // cover the same days
+  const range = useMemo(() => {
+    const { start, end } = getDateRangePresets()[dateRange];
+    return { startDate: formatDateForAPI(start), endDate: formatDateForAPI(end) };
+  }, [dateRange]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    setIsLoading(true);
+    setError(null);
+
+    // Ads were loaded for the previous range
+    setAdsByGroup({});
+    setExpanded(new Set());
+
+    Promise.all([
+      getCampaign(campaignId, range, controller.signal),
+      getMetrics(
+        { ...range, granularity: 'day', campaignIds: [campaignId], metrics: ['spend', 'clicks'] },
+        controller.signal
+      ),
+      getCampaignAdGroups(campaignId, { ...range, limit: PAGE_SIZE }, controller.signal),
+    ])
+      .then(([detail, metrics, groups]) => {
+        setCampaign(detail);
+        setTrend(fillDays(metrics.data, range.startDate, range.endDate));
+        setAdGroups(groups.adGroups);
+        setAdGroupPagination(groups.pagination);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        if (err instanceof ApiError && err.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        setError(err instanceof Error ? err.message : 'Failed to load campaign');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [campaignId, range, reloadKey]);
+
+  const loadMoreAdGroups = async () => {
+    if (!adGroupPagination?.nextCursor) return;
+
+    setIsLoadingMore(true);
+    try {
+      const next = await getCampaignAdGroups(campaignId, {
+        ...range,
+        limit: PAGE_SIZE,
+        cursor: adGroupPagination.nextCursor,
+      });
+      setAdGroups((prev) => [...prev, ...next.adGroups]);
+      setAdGroupPagination(next.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ad groups');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const loadAds = async (adGroupId: string, cursor?: string) => {
+    setAdsByGroup((prev) => ({
+      ...prev,
+      [adGroupId]: {
+        ads: prev[adGroupId]?.ads ?? [],
+        pagination: prev[adGroupId]?.pagination ?? null,
+        isLoading: true,
+        error: null,
+      },
+    }));
+
+    try {
+      const next = await getCampaignAds(campaignId, { ...range, adGroupId, limit: PAGE_SIZE, cursor });
+      setAdsByGroup((prev) => ({
+        ...prev,
+        [adGroupId]: {
+          ads: cursor ? [...(prev[adGroupId]?.ads ?? []), ...next.ads] : next.ads,
+          pagination: next.pagination,
+          isLoading: false,
+          error: null,
+        },
+      }));
+    } catch (err) {
+      setAdsByGroup((prev) => ({
+        ...prev,
+        [adGroupId]: {
+          ads: prev[adGroupId]?.ads ?? [],
+          pagination: prev[adGroupId]?.pagination ?? null,
+          isLoading: false,
+          error: err instanceof Error ? err.message : 'Failed to load ads',
+        },
+      }));
+    }
+  };
+
+  const toggleAdGroup = (adGroupId: string) => {
+    const next = new Set(expanded);
+    if (next.has(adGroupId)) {
+      next.delete(adGroupId);
+    } else {
+      next.add(adGroupId);
+      if (!adsByGroup[adGroupId] || adsByGroup[adGroupId].error) {
+        loadAds(adGroupId);
+      }
+    }
+    setExpanded(next);
+  };
+
+  if (notFound) {
+    return (
+      <Card className="border-dashed">
+        <CardContent className="p-12 text-center">
+          <h3 className="font-semibold mb-1">Campaign not found</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            It may have been removed, or belong to an account that is no longer linked.
+          </p>
+          <Button variant="outline" asChild>
+            <Link href="/campaigns">Back to Campaigns</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const currency = campaign?.currency ?? 'USD';
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <Link
+            href="/campaigns"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Campaigns
+          </Link>
+          {campaign ? (
+            <>
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl font-bold">{campaign.name}</h1>
+                <StatusBadge status={campaign.status} />
+              </div>
+              <p className="text-muted-foreground">
+                {campaign.accountName}
+                {campaign.type && ` · ${campaign.type.replace(/_/g, ' ')}`}
+              </p>
+            </>
+          ) : (
+            <div className="h-8 w-64 bg-muted rounded animate-pulse" />
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRangeKey)}>
+            <SelectTrigger className="w-[180px]">
+              <Calendar className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(presets).map(([key, preset]) => (
+                <SelectItem key={key} value={key}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey((prev) => prev + 1)}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {error && !campaign ? (
+        <Card className="border-red-500/20">
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+            <h3 className="font-semibold mb-1">Could not load campaign</h3>
+            <p className="text-sm text-muted-foreground mb-4">{error}</p>
+            <Button variant="outline" onClick={() => setReloadKey((prev) => prev + 1)}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : !campaign ? (
+        /* First load */
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {Array.from({ length: 4 }, (_, i) => (
+              <Card key={i}>
+                <CardContent className="p-4">
+                  <div className="h-4 w-20 bg-muted rounded animate-pulse" />
+                  <div className="h-8 w-28 bg-muted rounded animate-pulse mt-2" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <Card>
+            <CardContent className="p-6">
+              <div className="h-64 bg-muted rounded animate-pulse" />
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <div className={cn('space-y-6 transition-opacity', isLoading && 'opacity-60')}>
+          {error && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-sm text-red-500">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {/* Campaign Settings */}
+          <Card>
+            <CardContent className="p-6 grid grid-cols-2 md:grid-cols-4 gap-6">
+              <DetailItem
+                label="Budget"
+                value={
+                  campaign.budget === null
+                    ? '—'
+                    : `${formatCurrency(Number(campaign.budget), currency)}${
+                        campaign.budgetType ? ` / ${campaign.budgetType.toLowerCase()}` : ''
+                      }`
+                }
+              />
+              <DetailItem label="Start Date" value={campaign.startDate ? formatDay(campaign.startDate) : '—'} />
+              <DetailItem label="End Date" value={campaign.endDate ? formatDay(campaign.endDate) : 'No end date'} />
+              <DetailItem label="Campaign ID" value={campaign.externalId} />
+            </CardContent>
+          </Card>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Spend', value: formatCurrency(Number(campaign.spend), currency) },
+              { label: 'Impressions', value: formatNumber(campaign.impressions) },
+              { label: 'Clicks', value: formatNumber(campaign.clicks) },
+              { label: 'Conversions', value: formatNumber(campaign.conversions) },
+              { label: 'CTR', value: `${campaign.ctr.toFixed(2)}%` },
+              { label: 'CPC', value: formatCurrency(Number(campaign.cpc), currency) },
+              { label: 'Conversion Value', value: formatCurrency(Number(campaign.conversionValue), currency) },
+              { label: 'ROAS', value: `${campaign.roas.toFixed(1)}x` },
+            ].map((card) => (
+              <Card key={card.label}>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">{card.label}</p>
+                  <p className="text-2xl font-bold">{card.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Daily Trend */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily Trend</CardTitle>
+              <CardDescription>Spend and clicks per day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={trend} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+                    <defs>
+                      <linearGradient id="spendFill" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#8b5cf6" stopOpacity={0.3} />
+                        <stop offset="100%" stopColor="#8b5cf6" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={formatChartDate}
+                      tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={24}
+                    />
+                    <YAxis
+                      yAxisId="spend"
+                      tickFormatter={(value: number) => formatCurrency(value, currency).replace(/\.00$/, '')}
+                      tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                      tickLine={false}
+                      axisLine={false}
+                      width={64}
+                    />
+                    <YAxis
+                      yAxisId="clicks"
+                      orientation="right"
+                      tickFormatter={formatNumber}
+                      tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                      tickLine={false}
+                      axisLine={false}
+                      width={48}
+                    />
+                    <Tooltip
+                      labelFormatter={(date: string) => formatChartDate(date)}
+                      formatter={(value: number, name: string) =>
+                        name === 'Spend' ? formatCurrency(value, currency) : value.toLocaleString()
+                      }
+                      contentStyle={{
+                        background: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: 8,
+                        fontSize: 12,
+                      }}
+                    />
+                    <Area
+                      yAxisId="spend"
+                      type="monotone"
+                      dataKey="spend"
+                      name="Spend"
+                      stroke="#8b5cf6"
+                      strokeOpacity={0.5}
+                      fill="url(#spendFill)"
+                    />
+                    <Area
+                      yAxisId="clicks"
+                      type="monotone"
+                      dataKey="clicks"
+                      name="Clicks"
+                      stroke="#8b5cf6"
+                      strokeWidth={2}
+                      fill="none"
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Ad Groups */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Ad Groups</CardTitle>
+              <CardDescription>
+                {campaign.adGroupCount} ad group{campaign.adGroupCount !== 1 ? 's' : ''} · expand one to see its ads
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {adGroups.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">This campaign has no ad groups</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Ad Group</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Spend</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Impr.</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Clicks</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">CTR</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Conv.</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">ROAS</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {adGroups.map((adGroup) => {
+                        const isExpanded = expanded.has(adGroup.id);
+
+                        return (
+                          <Fragment key={adGroup.id}>
+                            <tr
+                              className="border-b border-border/50 hover:bg-muted/50 transition-colors cursor-pointer"
+                              onClick={() => toggleAdGroup(adGroup.id)}
+                            >
+                              <td className="py-3 px-4">
+                                <div className="flex items-center gap-2">
+                                  {isExpanded ? (
+                                    <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                                  ) : (
+                                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                                  )}
+                                  <span className="font-medium">{adGroup.name}</span>
+                                </div>
+                              </td>
+                              <td className="py-3 px-4">
+                                <StatusBadge status={adGroup.status} />
+                              </td>
+                              <td className="py-3 px-4 text-right font-medium">
+                                {formatCurrency(Number(adGroup.spend), currency)}
+                              </td>
+                              <td className="py-3 px-4 text-right text-muted-foreground">
+                                {formatNumber(adGroup.impressions)}
+                              </td>
+                              <td className="py-3 px-4 text-right text-muted-foreground">
+                                {formatNumber(adGroup.clicks)}
+                              </td>
+                              <td className="py-3 px-4 text-right text-muted-foreground">
+                                {adGroup.ctr.toFixed(2)}%
+                              </td>
+                              <td className="py-3 px-4 text-right text-muted-foreground">
+                                {formatNumber(adGroup.conversions)}
+                              </td>
+                              <td className="py-3 px-4 text-right">
+                                <RoasValue roas={adGroup.roas} />
+                              </td>
+                            </tr>
+                            {isExpanded && (
+                              <tr className="border-b border-border/50 bg-muted/30">
+                                <td colSpan={8} className="py-3 px-4 pl-10">
+                                  <AdsTable
+                                    state={
+                                      adsByGroup[adGroup.id] ?? { ads: [], pagination: null, isLoading: true, error: null }
+                                    }
+                                    currency={currency}
+                                    onLoadMore={() =>
+                                      loadAds(adGroup.id, adsByGroup[adGroup.id]?.pagination?.nextCursor ?? undefined)
+                                    }
+                                  />
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  {adGroupPagination?.hasMore && (
+                    <div className="flex justify-center pt-4">
+                      <Button variant="outline" onClick={loadMoreAdGroups} disabled={isLoadingMore}>
+                        {isLoadingMore && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+                        Load More
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
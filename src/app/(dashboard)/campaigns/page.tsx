@@ -1,18 +1,22 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import {
   Search,
-  Filter,
-  MoreVertical,
   TrendingUp,
   TrendingDown,
   Pause,
   Play,
-  ExternalLink,
-  ChevronDown,
+  Calendar,
+  RefreshCw,
+  AlertCircle,
+  ArrowUp,
+  ArrowDown,
+  ChevronRight,
+  Megaphone,
 } from 'lucide-react';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/src/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/src/components/ui/card';
 import { Button } from '@/src/components/ui/button';
 import { Input } from '@/src/components/ui/input';
 import {
@@ -22,119 +26,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/src/components/ui/select';
-import { cn, formatCurrency, formatNumber } from '@/src/lib/utils';
+import {
+  cn,
+  formatCurrency,
+  formatDateForAPI,
+  formatNumber,
+  getComparisonDates,
+  getDateRangePresets,
+} from '@/src/lib/utils';
+import {
+  getCampaigns,
+  CampaignListParams,
+  CampaignRow,
+  CampaignSortKey,
+  CampaignsResponse,
+  EntityStatus,
+} from '@/src/lib/api-client';
+
+type DateRangeKey = keyof ReturnType<typeof getDateRangePresets>;
+
+const PAGE_SIZE = 50;
 
-// Mock campaign data
-const mockCampaigns = [
-  {
-    id: '1',
-    name: 'Brand Awareness - Q4 2024',
-    account: 'Main Brand Account',
-    status: 'ENABLED',
-    type: 'SEARCH',
-    budget: 500,
-    budgetType: 'DAILY',
-    spend: 4523.45,
-    impressions: 890234,
-    clicks: 23456,
-    conversions: 892,
-    conversionValue: 18976.50,
-    ctr: 2.64,
-    cpc: 0.19,
-    roas: 4.2,
-    change: 12.5,
-  },
-  {
-    id: '2',
-    name: 'Product Launch - Holiday Season',
-    account: 'Main Brand Account',
-    status: 'ENABLED',
-    type: 'PERFORMANCE_MAX',
-    budget: 1000,
-    budgetType: 'DAILY',
-    spend: 3212.78,
-    impressions: 654321,
-    clicks: 18765,
-    conversions: 654,
-    conversionValue: 12210.45,
-    ctr: 2.87,
-    cpc: 0.17,
-    roas: 3.8,
-    change: 8.2,
-  },
-  {
-    id: '3',
-    name: 'Retargeting - Cart Abandonment',
-    account: 'Main Brand Account',
-    status: 'ENABLED',
-    type: 'DISPLAY',
-    budget: 250,
-    budgetType: 'DAILY',
-    spend: 2456.12,
-    impressions: 345678,
-    clicks: 12345,
-    conversions: 543,
-    conversionValue: 12530.25,
-    ctr: 3.57,
-    cpc: 0.20,
-    roas: 5.1,
-    change: 15.3,
-  },
-  {
-    id: '4',
-    name: 'Search - Generic Keywords',
-    account: 'Performance Max',
-    status: 'PAUSED',
-    type: 'SEARCH',
-    budget: 300,
-    budgetType: 'DAILY',
-    spend: 1890.32,
-    impressions: 234567,
-    clicks: 8765,
-    conversions: 234,
-    conversionValue: 5484.78,
-    ctr: 3.74,
-    cpc: 0.22,
-    roas: 2.9,
-    change: -5.2,
-  },
-  {
-    id: '5',
-    name: 'Display - Interest Targeting',
-    account: 'EU Market Account',
-    status: 'ENABLED',
-    type: 'DISPLAY',
-    budget: 200,
-    budgetType: 'DAILY',
-    spend: 1367.00,
-    impressions: 432109,
-    clicks: 7654,
-    conversions: 187,
-    conversionValue: 3280.80,
-    ctr: 1.77,
-    cpc: 0.18,
-    roas: 2.4,
-    change: -2.1,
-  },
-  {
-    id: '6',
-    name: 'Video - YouTube Pre-roll',
-    account: 'Main Brand Account',
-    status: 'ENABLED',
-    type: 'VIDEO',
-    budget: 400,
-    budgetType: 'DAILY',
-    spend: 2890.55,
-    impressions: 567890,
-    clicks: 9876,
-    conversions: 321,
-    conversionValue: 8025.00,
-    ctr: 1.74,
-    cpc: 0.29,
-    roas: 2.78,
-    change: 6.8,
-  },
-];
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
 
 function StatusBadge({ status }: { status: string }) {
   return (
@@ -170,27 +84,208 @@ function CampaignTypeBadge({ type }: { type: string }) {
   );
 }
 
+function SortHeader({
+  label,
+  sortKey,
+  sortBy,
+  sortOrder,
+  onSort,
+  align = 'right',
+}: {
+  label: string;
+  sortKey: CampaignSortKey;
+  sortBy: CampaignSortKey;
+  sortOrder: 'asc' | 'desc';
+  onSort: (key: CampaignSortKey) => void;
+  align?: 'left' | 'right';
+}) {
+  return (
+    <th className={cn('py-3 px-4 text-sm font-medium text-muted-foreground', align === 'right' ? 'text-right' : 'text-left')}>
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className={cn(
+          'inline-flex items-center gap-1 hover:text-foreground transition-colors',
+          sortBy === sortKey && 'text-foreground'
+        )}
+      >
+        {label}
+        {sortBy === sortKey &&
+          (sortOrder === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+}
+
+function ChangeCell({ change }: { change?: number | null }) {
+  if (change === undefined || change === null) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="flex items-center justify-end gap-1">
+      {change >= 0 ? (
+        <TrendingUp className="w-4 h-4 text-green-500" />
+      ) : (
+        <TrendingDown className="w-4 h-4 text-red-500" />
+      )}
+      <span className={cn('text-sm font-medium', change >= 0 ? 'text-green-500' : 'text-red-500')}>
+        {change >= 0 ? '+' : ''}
+        {change.toFixed(1)}%
+      </span>
+    </div>
+  );
+}
+
+function CampaignTableRow({ campaign }: { campaign: CampaignRow }) {
+  return (
+    <tr className="border-b border-border/50 hover:bg-muted/50 transition-colors">
+      <td className="py-3 px-4">
+        <Link href={`/campaigns/${campaign.id}`} className="hover:underline">
+          <p className="font-medium">{campaign.name}</p>
+        </Link>
+        <p className="text-xs text-muted-foreground">{campaign.accountName}</p>
+      </td>
+      <td className="py-3 px-4">
+        <StatusBadge status={campaign.status} />
+      </td>
+      <td className="py-3 px-4">
+        {campaign.type ? <CampaignTypeBadge type={campaign.type} /> : <span className="text-muted-foreground">—</span>}
+      </td>
+      <td className="py-3 px-4 text-right text-sm">
+        {campaign.budget === null ? (
+          <span className="text-muted-foreground">—</span>
+        ) : (
+          <>
+            {formatCurrency(Number(campaign.budget), campaign.currency)}
+            {campaign.budgetType && `/${campaign.budgetType.toLowerCase()}`}
+          </>
+        )}
+      </td>
+      <td className="py-3 px-4 text-right font-medium">
+        {formatCurrency(Number(campaign.spend), campaign.currency)}
+      </td>
+      <td className="py-3 px-4 text-right text-muted-foreground">
+        {formatNumber(campaign.impressions)}
+      </td>
+      <td className="py-3 px-4 text-right text-muted-foreground">
+        {formatNumber(campaign.clicks)}
+      </td>
+      <td className="py-3 px-4 text-right text-muted-foreground">
+        {campaign.ctr.toFixed(2)}%
+      </td>
+      <td className="py-3 px-4 text-right">
+        <span
+          className={cn(
+            'font-medium',
+            campaign.roas >= 3 ? 'text-green-500' : campaign.roas >= 2 ? 'text-yellow-500' : 'text-red-500'
+          )}
+        >
+          {campaign.roas.toFixed(1)}x
+        </span>
+      </td>
+      <td className="py-3 px-4 text-right">
+        <ChangeCell change={campaign.change} />
+      </td>
+      <td className="py-3 px-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={`/campaigns/${campaign.id}`}>
+            <ChevronRight className="w-4 h-4" />
+          </Link>
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
 export default function CampaignsPage() {
+  const [dateRange, setDateRange] = useState<DateRangeKey>('last30Days');
   const [searchQuery, setSearchQuery] = useState('');
+  const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [typeFilter, setTypeFilter] = useState('all');
+  const [sortBy, setSortBy] = useState<CampaignSortKey>('spend');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [data, setData] = useState<CampaignsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
-  const filteredCampaigns = mockCampaigns.filter((campaign) => {
-    const matchesSearch = campaign.name.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || campaign.status === statusFilter;
-    const matchesType = typeFilter === 'all' || campaign.type === typeFilter;
-    return matchesSearch && matchesStatus && matchesType;
-  });
+  const presets = getDateRangePresets();
 
-  const totals = filteredCampaigns.reduce(
-    (acc, c) => ({
-      spend: acc.spend + c.spend,
-      impressions: acc.impressions + c.impressions,
-      clicks: acc.clicks + c.clicks,
-      conversions: acc.conversions + c.conversions,
-    }),
-    { spend: 0, impressions: 0, clicks: 0, conversions: 0 }
-  );
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchQuery.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Shared by the first page and "Load More", so the date range stays put
+  // while paging
+  const params = useMemo((): CampaignListParams => {
+    const { start, end } = getDateRangePresets()[dateRange];
+    const { compareStart, compareEnd } = getComparisonDates(start, end);
+
+    return {
+      startDate: formatDateForAPI(start),
+      endDate: formatDateForAPI(end),
+      compareStartDate: formatDateForAPI(compareStart),
+      compareEndDate: formatDateForAPI(compareEnd),
+      status: statusFilter === 'all' ? undefined : [statusFilter as EntityStatus],
+      type: typeFilter === 'all' ? undefined : [typeFilter],
+      search: search || undefined,
+      sortBy,
+      sortOrder,
+      limit: PAGE_SIZE,
+    };
+  }, [dateRange, search, statusFilter, typeFilter, sortBy, sortOrder]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    setIsLoading(true);
+    setError(null);
+
+    getCampaigns(params, controller.signal)
+      .then(setData)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load campaigns');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    // Changing a filter or sort supersedes this request
+    return () => controller.abort();
+  }, [params, reloadKey]);
+
+  const loadMore = async () => {
+    if (!data?.pagination.nextCursor) return;
+
+    setIsLoadingMore(true);
+    try {
+      const next = await getCampaigns({ ...params, cursor: data.pagination.nextCursor });
+      setData((prev) => prev && { ...next, campaigns: [...prev.campaigns, ...next.campaigns] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load campaigns');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Names read best A-Z; metrics read best highest first
+  const toggleSort = (key: CampaignSortKey) => {
+    if (key === sortBy) {
+      setSortOrder((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortBy(key);
+      setSortOrder(key === 'name' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortProps = { sortBy, sortOrder, onSort: toggleSort };
+  const totals = data?.totals;
+  const hasFilters = Boolean(search) || statusFilter !== 'all' || typeFilter !== 'all';
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -200,34 +295,50 @@ export default function CampaignsPage() {
           <h1 className="text-2xl font-bold">Campaigns</h1>
           <p className="text-muted-foreground">Manage and monitor your ad campaigns</p>
         </div>
+        <div className="flex items-center gap-3">
+          <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRangeKey)}>
+            <SelectTrigger className="w-[180px]">
+              <Calendar className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(presets).map(([key, preset]) => (
+                <SelectItem key={key} value={key}>
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey((prev) => prev + 1)}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <Card>
-          <CardContent className="p-4">
-            <p className="text-sm text-muted-foreground">Total Spend</p>
-            <p className="text-2xl font-bold">{formatCurrency(totals.spend)}</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <p className="text-sm text-muted-foreground">Impressions</p>
-            <p className="text-2xl font-bold">{formatNumber(totals.impressions)}</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <p className="text-sm text-muted-foreground">Clicks</p>
-            <p className="text-2xl font-bold">{formatNumber(totals.clicks)}</p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <p className="text-sm text-muted-foreground">Conversions</p>
-            <p className="text-2xl font-bold">{formatNumber(totals.conversions)}</p>
-          </CardContent>
-        </Card>
+        {[
+          { label: 'Total Spend', value: totals && formatCurrency(Number(totals.spend)) },
+          { label: 'Impressions', value: totals && formatNumber(totals.impressions) },
+          { label: 'Clicks', value: totals && formatNumber(totals.clicks) },
+          { label: 'Conversions', value: totals && formatNumber(totals.conversions) },
+        ].map((card) => (
+          <Card key={card.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{card.label}</p>
+              {card.value === undefined ? (
+                <div className="h-8 w-24 bg-muted rounded animate-pulse mt-1" />
+              ) : (
+                <p className="text-2xl font-bold">{card.value}</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* Filters */}
@@ -251,6 +362,7 @@ export default function CampaignsPage() {
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="ENABLED">Enabled</SelectItem>
                 <SelectItem value="PAUSED">Paused</SelectItem>
+                <SelectItem value="REMOVED">Removed</SelectItem>
               </SelectContent>
             </Select>
             <Select value={typeFilter} onValueChange={setTypeFilter}>
@@ -262,6 +374,7 @@ export default function CampaignsPage() {
                 <SelectItem value="SEARCH">Search</SelectItem>
                 <SelectItem value="DISPLAY">Display</SelectItem>
                 <SelectItem value="VIDEO">Video</SelectItem>
+                <SelectItem value="SHOPPING">Shopping</SelectItem>
                 <SelectItem value="PERFORMANCE_MAX">Performance Max</SelectItem>
               </SelectContent>
             </Select>
@@ -270,110 +383,92 @@ export default function CampaignsPage() {
       </Card>
 
       {/* Campaigns Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">
-            {filteredCampaigns.length} Campaign{filteredCampaigns.length !== 1 ? 's' : ''}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b border-border">
-                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Campaign</th>
-                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
-                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Type</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Budget</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Spend</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Impr.</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Clicks</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">CTR</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">ROAS</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Change</th>
-                  <th className="py-3 px-4"></th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredCampaigns.map((campaign) => (
-                  <tr
-                    key={campaign.id}
-                    className="border-b border-border/50 hover:bg-muted/50 transition-colors"
-                  >
-                    <td className="py-3 px-4">
-                      <div>
-                        <p className="font-medium">{campaign.name}</p>
-                        <p className="text-xs text-muted-foreground">{campaign.account}</p>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <StatusBadge status={campaign.status} />
-                    </td>
-                    <td className="py-3 px-4">
-                      <CampaignTypeBadge type={campaign.type} />
-                    </td>
-                    <td className="py-3 px-4 text-right text-sm">
-                      {formatCurrency(campaign.budget)}/{campaign.budgetType.toLowerCase()}
-                    </td>
-                    <td className="py-3 px-4 text-right font-medium">
-                      {formatCurrency(campaign.spend)}
-                    </td>
-                    <td className="py-3 px-4 text-right text-muted-foreground">
-                      {formatNumber(campaign.impressions)}
-                    </td>
-                    <td className="py-3 px-4 text-right text-muted-foreground">
-                      {formatNumber(campaign.clicks)}
-                    </td>
-                    <td className="py-3 px-4 text-right text-muted-foreground">
-                      {campaign.ctr.toFixed(2)}%
-                    </td>
-                    <td className="py-3 px-4 text-right">
-                      <span
-                        className={cn(
-                          'font-medium',
-                          campaign.roas >= 3 ? 'text-green-500' : campaign.roas >= 2 ? 'text-yellow-500' : 'text-red-500'
-                        )}
-                      >
-                        {campaign.roas.toFixed(1)}x
-                      </span>
-                    </td>
-                    <td className="py-3 px-4 text-right">
-                      <div className="flex items-center justify-end gap-1">
-                        {campaign.change >= 0 ? (
-                          <TrendingUp className="w-4 h-4 text-green-500" />
-                        ) : (
-                          <TrendingDown className="w-4 h-4 text-red-500" />
-                        )}
-                        <span
-                          className={cn(
-                            'text-sm font-medium',
-                            campaign.change >= 0 ? 'text-green-500' : 'text-red-500'
-                          )}
-                        >
-                          {campaign.change >= 0 ? '+' : ''}
-                          {campaign.change.toFixed(1)}%
-                        </span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <Button variant="ghost" size="icon">
-                        <MoreVertical className="w-4 h-4" />
-                      </Button>
-                    </td>
-                  </tr>
+      {error && !data ? (
+        <Card className="border-red-500/20">
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+            <h3 className="font-semibold mb-1">Could not load campaigns</h3>
+            <p className="text-sm text-muted-foreground mb-4">{error}</p>
+            <Button variant="outline" onClick={() => setReloadKey((prev) => prev + 1)}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {data ? `${data.total} Campaign${data.total !== 1 ? 's' : ''}` : 'Campaigns'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="flex items-center gap-2 mb-4 p-3 rounded-lg bg-red-500/10 text-sm text-red-500">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+
+            {!data ? (
+              <div className="space-y-3">
+                {Array.from({ length: 5 }, (_, i) => (
+                  <div key={i} className="h-12 bg-muted rounded animate-pulse" />
                 ))}
-              </tbody>
-            </table>
-          </div>
+              </div>
+            ) : data.campaigns.length === 0 ? (
+              <div className="text-center py-12">
+                <Megaphone className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+                {hasFilters ? (
+                  <p className="text-muted-foreground">No campaigns found matching your filters.</p>
+                ) : (
+                  <>
+                    <p className="text-muted-foreground mb-4">
+                      No campaigns yet. Link ad accounts and wait for their first sync to finish.
+                    </p>
+                    <Button variant="outline" asChild>
+                      <Link href="/accounts">Manage Accounts</Link>
+                    </Button>
+                  </>
+                )}
+              </div>
+            ) : (
+              <div className={cn('overflow-x-auto transition-opacity', isLoading && 'opacity-60')}>
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <SortHeader {...sortProps} label="Campaign" sortKey="name" align="left" />
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Type</th>
+                      <SortHeader {...sortProps} label="Budget" sortKey="budget" />
+                      <SortHeader {...sortProps} label="Spend" sortKey="spend" />
+                      <SortHeader {...sortProps} label="Impr." sortKey="impressions" />
+                      <SortHeader {...sortProps} label="Clicks" sortKey="clicks" />
+                      <SortHeader {...sortProps} label="CTR" sortKey="ctr" />
+                      <SortHeader {...sortProps} label="ROAS" sortKey="roas" />
+                      <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Change</th>
+                      <th className="py-3 px-4"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.campaigns.map((campaign) => (
+                      <CampaignTableRow key={campaign.id} campaign={campaign} />
+                    ))}
+                  </tbody>
+                </table>
 
-          {filteredCampaigns.length === 0 && (
-            <div className="text-center py-12">
-              <p className="text-muted-foreground">No campaigns found matching your filters.</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                {data.pagination.hasMore && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                      {isLoadingMore && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+                      Load More
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
-
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import {
   TrendingUp,
   TrendingDown,
@@ -10,7 +11,18 @@ import {
   Target,
   Calendar,
   RefreshCw,
+  AlertCircle,
+  BarChart3,
 } from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/src/components/ui/card';
 import { Button } from '@/src/components/ui/button';
 import {
@@ -20,43 +32,64 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/src/components/ui/select';
-import { cn, formatCurrency, formatNumber, formatPercent } from '@/src/lib/utils';
+import {
+  cn,
+  formatCurrency,
+  formatDateForAPI,
+  formatNumber,
+  getComparisonDates,
+  getDateRangePresets,
+} from '@/src/lib/utils';
+import {
+  getMetrics,
+  getMetricsSummary,
+  getTopCampaigns,
+  MetricsRow,
+  MetricsSummary,
+  TopCampaign,
+} from '@/src/lib/api-client';
+
+type DateRangeKey = keyof ReturnType<typeof getDateRangePresets>;
 
-// Mock data for demo
-const mockMetrics = {
-  current: {
-    impressions: 2456789,
-    clicks: 84234,
-    spend: 12450.67,
-    conversions: 2341,
-    conversionValue: 39876.45,
-    cpc: 0.148,
-    ctr: 3.43,
-    roas: 3.2,
-  },
-  previous: {
-    impressions: 2134567,
-    clicks: 76543,
-    spend: 10890.23,
-    conversions: 1987,
-    conversionValue: 32456.78,
-  },
-};
+interface ChartPoint {
+  date: string;
+  impressions: number;
+  clicks: number;
+}
 
-const mockChartData = Array.from({ length: 30 }, (_, i) => ({
-  date: new Date(Date.now() - (29 - i) * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-  impressions: Math.floor(Math.random() * 100000) + 50000,
-  clicks: Math.floor(Math.random() * 5000) + 2000,
-  spend: Math.random() * 500 + 300,
-}));
+interface DashboardData {
+  summary: MetricsSummary;
+  chart: ChartPoint[];
+  campaigns: TopCampaign[];
+  hasData: boolean;
+}
 
-const mockCampaigns = [
-  { id: '1', name: 'Brand Awareness - Q4', spend: 4523.45, impressions: 890234, clicks: 23456, roas: 4.2, status: 'ENABLED' },
-  { id: '2', name: 'Product Launch - Holiday', spend: 3212.78, impressions: 654321, clicks: 18765, roas: 3.8, status: 'ENABLED' },
-  { id: '3', name: 'Retargeting - Cart Abandonment', spend: 2456.12, impressions: 345678, clicks: 12345, roas: 5.1, status: 'ENABLED' },
-  { id: '4', name: 'Search - Generic Keywords', spend: 1890.32, impressions: 234567, clicks: 8765, roas: 2.9, status: 'PAUSED' },
-  { id: '5', name: 'Display - Interest Targeting', spend: 1367.00, impressions: 432109, clicks: 7654, roas: 2.4, status: 'ENABLED' },
-];
+// Parse an API date (YYYY-MM-DD) as a local calendar day
+function parseDay(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+function formatChartDate(date: string): string {
+  return parseDay(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// One point per day in the range, with zeros for days that have no rows
+function fillDays(rows: MetricsRow[], startDate: string, endDate: string): ChartPoint[] {
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+  const points: ChartPoint[] = [];
+
+  for (let day = parseDay(startDate); day <= parseDay(endDate); day.setDate(day.getDate() + 1)) {
+    const date = formatDateForAPI(day);
+    const row = byDate.get(date);
+    points.push({
+      date,
+      impressions: row?.impressions ?? 0,
+      clicks: row?.clicks ?? 0,
+    });
+  }
+
+  return points;
+}
 
 function MetricCard({
   title,
@@ -110,13 +143,56 @@ function MetricCard({
 }
 
 export default function DashboardPage() {
-  const [dateRange, setDateRange] = useState('last30');
-  const [isLoading, setIsLoading] = useState(false);
+  const [dateRange, setDateRange] = useState<DateRangeKey>('last30Days');
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const presets = getDateRangePresets();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { start, end } = getDateRangePresets()[dateRange];
+    const { compareStart, compareEnd } = getComparisonDates(start, end);
+    const range = { startDate: formatDateForAPI(start), endDate: formatDateForAPI(end) };
 
-  const calculateChange = (current: number, previous: number) => {
-    if (previous === 0) return 0;
-    return ((current - previous) / previous) * 100;
-  };
+    setIsLoading(true);
+    setError(null);
+
+    Promise.all([
+      getMetricsSummary(
+        {
+          ...range,
+          compareStartDate: formatDateForAPI(compareStart),
+          compareEndDate: formatDateForAPI(compareEnd),
+        },
+        controller.signal
+      ),
+      getMetrics({ ...range, granularity: 'day', metrics: ['impressions', 'clicks'] }, controller.signal),
+      getTopCampaigns({ ...range, limit: 5 }, controller.signal),
+    ])
+      .then(([summary, metrics, campaigns]) => {
+        setData({
+          summary,
+          chart: fillDays(metrics.data, range.startDate, range.endDate),
+          campaigns,
+          hasData: metrics.data.length > 0,
+        });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load metrics');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    // A newer range or refresh supersedes this request
+    return () => controller.abort();
+  }, [dateRange, reloadKey]);
+
+  const summary = data?.summary;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -127,221 +203,324 @@ export default function DashboardPage() {
           <p className="text-muted-foreground">Track your ad performance across all platforms</p>
         </div>
         <div className="flex items-center gap-3">
-          <Select value={dateRange} onValueChange={setDateRange}>
+          <Select value={dateRange} onValueChange={(value) => setDateRange(value as DateRangeKey)}>
             <SelectTrigger className="w-[180px]">
               <Calendar className="w-4 h-4 mr-2" />
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="today">Today</SelectItem>
-              <SelectItem value="yesterday">Yesterday</SelectItem>
-              <SelectItem value="last7">Last 7 days</SelectItem>
-              <SelectItem value="last30">Last 30 days</SelectItem>
-              <SelectItem value="last90">Last 90 days</SelectItem>
-              <SelectItem value="thisMonth">This month</SelectItem>
-              <SelectItem value="lastMonth">Last month</SelectItem>
+              {Object.entries(presets).map(([key, preset]) => (
+                <SelectItem key={key} value={key}>
+                  {preset.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
-          <Button variant="outline" size="icon">
-            <RefreshCw className="w-4 h-4" />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey((prev) => prev + 1)}
+            disabled={isLoading}
+          >
+            <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
           </Button>
         </div>
       </div>
 
-      {/* Metric Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <MetricCard
-          title="Total Spend"
-          value={mockMetrics.current.spend}
-          change={calculateChange(mockMetrics.current.spend, mockMetrics.previous.spend)}
-          icon={DollarSign}
-          format="currency"
-        />
-        <MetricCard
-          title="Impressions"
-          value={mockMetrics.current.impressions}
-          change={calculateChange(mockMetrics.current.impressions, mockMetrics.previous.impressions)}
-          icon={Eye}
-        />
-        <MetricCard
-          title="Clicks"
-          value={mockMetrics.current.clicks}
-          change={calculateChange(mockMetrics.current.clicks, mockMetrics.previous.clicks)}
-          icon={MousePointerClick}
-        />
-        <MetricCard
-          title="Conversions"
-          value={mockMetrics.current.conversions}
-          change={calculateChange(mockMetrics.current.conversions, mockMetrics.previous.conversions)}
-          icon={Target}
-        />
-      </div>
-
-      {/* Charts Row */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Performance Chart */}
-        <Card className="lg:col-span-2">
-          <CardHeader>
-            <CardTitle>Performance Over Time</CardTitle>
-            <CardDescription>Daily impressions and clicks</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="h-64 flex items-end gap-1">
-              {mockChartData.slice(-14).map((day, i) => (
-                <div key={i} className="flex-1 flex flex-col items-center gap-1">
-                  <div
-                    className="w-full bg-violet-500/20 rounded-t transition-all hover:bg-violet-500/30"
-                    style={{ height: `${(day.impressions / 150000) * 100}%` }}
-                  />
-                  <div
-                    className="w-full bg-violet-500 rounded-t transition-all hover:bg-violet-400"
-                    style={{ height: `${(day.clicks / 7000) * 100}%` }}
-                  />
-                </div>
-              ))}
-            </div>
-            <div className="flex justify-between mt-2 text-xs text-muted-foreground">
-              {mockChartData.slice(-14).filter((_, i) => i % 2 === 0).map((day, i) => (
-                <span key={i}>{new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
-              ))}
-            </div>
-            <div className="flex items-center gap-6 mt-4">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded bg-violet-500/20" />
-                <span className="text-sm text-muted-foreground">Impressions</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded bg-violet-500" />
-                <span className="text-sm text-muted-foreground">Clicks</span>
-              </div>
-            </div>
+      {error ? (
+        <Card className="border-red-500/20">
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+            <h3 className="font-semibold mb-1">Could not load metrics</h3>
+            <p className="text-sm text-muted-foreground mb-4">{error}</p>
+            <Button variant="outline" onClick={() => setReloadKey((prev) => prev + 1)}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      ) : !data || !summary ? (
+        /* First load */
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {Array.from({ length: 4 }, (_, i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <div className="h-4 w-24 bg-muted rounded animate-pulse" />
+                  <div className="h-8 w-32 bg-muted rounded animate-pulse mt-2" />
+                  <div className="h-4 w-28 bg-muted rounded animate-pulse mt-3" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <Card>
+            <CardContent className="p-6">
+              <div className="h-64 bg-muted rounded animate-pulse" />
+            </CardContent>
+          </Card>
+        </div>
+      ) : !data.hasData ? (
+        <Card className="border-dashed">
+          <CardContent className="p-12 text-center">
+            <BarChart3 className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <h3 className="font-semibold mb-1">No performance data for {presets[dateRange].label.toLowerCase()}</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Try a longer date range, or link ad accounts and wait for their first sync to finish.
+            </p>
+            <Button variant="outline" asChild>
+              <Link href="/accounts">Manage Accounts</Link>
+            </Button>
           </CardContent>
         </Card>
+      ) : (
+        <div className={cn('space-y-6 transition-opacity', isLoading && 'opacity-60')}>
+          {/* Metric Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <MetricCard
+              title="Total Spend"
+              value={summary.current.spend}
+              change={summary.changes?.spend}
+              icon={DollarSign}
+              format="currency"
+            />
+            <MetricCard
+              title="Impressions"
+              value={summary.current.impressions}
+              change={summary.changes?.impressions}
+              icon={Eye}
+            />
+            <MetricCard
+              title="Clicks"
+              value={summary.current.clicks}
+              change={summary.changes?.clicks}
+              icon={MousePointerClick}
+            />
+            <MetricCard
+              title="Conversions"
+              value={summary.current.conversions}
+              change={summary.changes?.conversions}
+              icon={Target}
+            />
+          </div>
 
-        {/* ROAS & Derived Metrics */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Key Metrics</CardTitle>
-            <CardDescription>Performance indicators</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <div>
-              <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-muted-foreground">ROAS</span>
-                <span className="text-2xl font-bold">{mockMetrics.current.roas.toFixed(1)}x</span>
-              </div>
-              <div className="h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-green-500 rounded-full"
-                  style={{ width: `${Math.min((mockMetrics.current.roas / 5) * 100, 100)}%` }}
-                />
-              </div>
-              <p className="text-xs text-muted-foreground mt-1">Target: 3.0x</p>
-            </div>
+          {/* Charts Row */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Performance Chart */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Performance Over Time</CardTitle>
+                <CardDescription>Daily impressions and clicks</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={data.chart} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+                      <defs>
+                        <linearGradient id="impressionsFill" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="0%" stopColor="#8b5cf6" stopOpacity={0.3} />
+                          <stop offset="100%" stopColor="#8b5cf6" stopOpacity={0} />
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" vertical={false} />
+                      <XAxis
+                        dataKey="date"
+                        tickFormatter={formatChartDate}
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        tickLine={false}
+                        axisLine={false}
+                        minTickGap={24}
+                      />
+                      <YAxis
+                        yAxisId="impressions"
+                        tickFormatter={formatNumber}
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        tickLine={false}
+                        axisLine={false}
+                        width={48}
+                      />
+                      <YAxis
+                        yAxisId="clicks"
+                        orientation="right"
+                        tickFormatter={formatNumber}
+                        tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+                        tickLine={false}
+                        axisLine={false}
+                        width={48}
+                      />
+                      <Tooltip
+                        labelFormatter={(date: string) => formatChartDate(date)}
+                        formatter={(value: number) => value.toLocaleString()}
+                        contentStyle={{
+                          background: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: 8,
+                          fontSize: 12,
+                        }}
+                      />
+                      <Area
+                        yAxisId="impressions"
+                        type="monotone"
+                        dataKey="impressions"
+                        name="Impressions"
+                        stroke="#8b5cf6"
+                        strokeOpacity={0.5}
+                        fill="url(#impressionsFill)"
+                      />
+                      <Area
+                        yAxisId="clicks"
+                        type="monotone"
+                        dataKey="clicks"
+                        name="Clicks"
+                        stroke="#8b5cf6"
+                        strokeWidth={2}
+                        fill="none"
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="flex items-center gap-6 mt-4">
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-violet-500/20" />
+                    <span className="text-sm text-muted-foreground">Impressions</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-violet-500" />
+                    <span className="text-sm text-muted-foreground">Clicks</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
 
-            <div>
-              <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-muted-foreground">CTR</span>
-                <span className="text-xl font-bold">{mockMetrics.current.ctr.toFixed(2)}%</span>
-              </div>
-              <div className="h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-violet-500 rounded-full"
-                  style={{ width: `${Math.min((mockMetrics.current.ctr / 5) * 100, 100)}%` }}
-                />
-              </div>
-            </div>
+            {/* ROAS & Derived Metrics */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Key Metrics</CardTitle>
+                <CardDescription>Performance indicators</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-muted-foreground">ROAS</span>
+                    <span className="text-2xl font-bold">{summary.current.roas.toFixed(1)}x</span>
+                  </div>
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-green-500 rounded-full"
+                      style={{ width: `${Math.min((summary.current.roas / 5) * 100, 100)}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">Target: 3.0x</p>
+                </div>
 
-            <div>
-              <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-muted-foreground">CPC</span>
-                <span className="text-xl font-bold">{formatCurrency(mockMetrics.current.cpc)}</span>
-              </div>
-              <div className="h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-purple-500 rounded-full"
-                  style={{ width: `${Math.min((0.20 / mockMetrics.current.cpc) * 50, 100)}%` }}
-                />
-              </div>
-            </div>
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-muted-foreground">CTR</span>
+                    <span className="text-xl font-bold">{summary.current.ctr.toFixed(2)}%</span>
+                  </div>
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-violet-500 rounded-full"
+                      style={{ width: `${Math.min((summary.current.ctr / 5) * 100, 100)}%` }}
+                    />
+                  </div>
+                </div>
 
-            <div className="pt-4 border-t border-border">
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-muted-foreground">Conversion Value</span>
-                <span className="text-xl font-bold text-green-500">
-                  {formatCurrency(mockMetrics.current.conversionValue)}
-                </span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-muted-foreground">CPC</span>
+                    <span className="text-xl font-bold">{formatCurrency(summary.current.cpc)}</span>
+                  </div>
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-purple-500 rounded-full"
+                      style={{
+                        width: `${summary.current.cpc > 0 ? Math.min((0.20 / summary.current.cpc) * 50, 100) : 0}%`,
+                      }}
+                    />
+                  </div>
+                </div>
 
-      {/* Top Campaigns Table */}
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Top Campaigns</CardTitle>
-              <CardDescription>Campaigns sorted by spend</CardDescription>
-            </div>
-            <Button variant="outline" size="sm">
-              View All
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b border-border">
-                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Campaign</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Spend</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Impressions</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Clicks</th>
-                  <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">ROAS</th>
-                </tr>
-              </thead>
-              <tbody>
-                {mockCampaigns.map((campaign) => (
-                  <tr key={campaign.id} className="border-b border-border/50 hover:bg-muted/50 transition-colors">
-                    <td className="py-3 px-4">
-                      <span className="font-medium">{campaign.name}</span>
-                    </td>
-                    <td className="text-right py-3 px-4">
-                      <span
-                        className={cn(
-                          'inline-flex px-2 py-1 rounded-full text-xs font-medium',
-                          campaign.status === 'ENABLED'
-                            ? 'bg-green-500/10 text-green-500'
-                            : 'bg-yellow-500/10 text-yellow-500'
-                        )}
-                      >
-                        {campaign.status}
-                      </span>
-                    </td>
-                    <td className="text-right py-3 px-4 font-medium">{formatCurrency(campaign.spend)}</td>
-                    <td className="text-right py-3 px-4 text-muted-foreground">{formatNumber(campaign.impressions)}</td>
-                    <td className="text-right py-3 px-4 text-muted-foreground">{formatNumber(campaign.clicks)}</td>
-                    <td className="text-right py-3 px-4">
-                      <span
-                        className={cn(
-                          'font-medium',
-                          campaign.roas >= 3 ? 'text-green-500' : campaign.roas >= 2 ? 'text-yellow-500' : 'text-red-500'
-                        )}
-                      >
-                        {campaign.roas.toFixed(1)}x
-                      </span>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+                <div className="pt-4 border-t border-border">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Conversion Value</span>
+                    <span className="text-xl font-bold text-green-500">
+                      {formatCurrency(summary.current.conversionValue)}
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           </div>
-        </CardContent>
-      </Card>
+
+          {/* Top Campaigns Table */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Top Campaigns</CardTitle>
+                  <CardDescription>Campaigns sorted by spend</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/campaigns">View All</Link>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {data.campaigns.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">No campaign spend in this period</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Campaign</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Spend</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Impressions</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Clicks</th>
+                        <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">ROAS</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.campaigns.map((campaign) => (
+                        <tr key={campaign.id} className="border-b border-border/50 hover:bg-muted/50 transition-colors">
+                          <td className="py-3 px-4">
+                            <span className="font-medium">{campaign.name}</span>
+                          </td>
+                          <td className="text-right py-3 px-4">
+                            <span
+                              className={cn(
+                                'inline-flex px-2 py-1 rounded-full text-xs font-medium',
+                                campaign.status === 'ENABLED'
+                                  ? 'bg-green-500/10 text-green-500'
+                                  : 'bg-yellow-500/10 text-yellow-500'
+                              )}
+                            >
+                              {campaign.status}
+                            </span>
+                          </td>
+                          <td className="text-right py-3 px-4 font-medium">{formatCurrency(campaign.spend)}</td>
+                          <td className="text-right py-3 px-4 text-muted-foreground">{formatNumber(campaign.impressions)}</td>
+                          <td className="text-right py-3 px-4 text-muted-foreground">{formatNumber(campaign.clicks)}</td>
+                          <td className="text-right py-3 px-4">
+                            <span
+                              className={cn(
+                                'font-medium',
+                                campaign.roas >= 3 ? 'text-green-500' : campaign.roas >= 2 ? 'text-yellow-500' : 'text-red-500'
+                              )}
+                            >
+                              {campaign.roas.toFixed(1)}x
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 }
-
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import {
@@ -15,7 +15,7 @@ import {
   LogOut,
   Bell,
 } from 'lucide-react';
-import { cn } from '@/src/lib/utils';
+import { cn, formatDate } from '@/src/lib/utils';
 import { Button } from '@/src/components/ui/button';
 import { Avatar, AvatarFallback } from '@/src/components/ui/avatar';
 import { MedulaLogo, MedulaLogoIcon } from '@/src/components/ui/medula-logo';
@@ -29,6 +29,95 @@ const navigation = [
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// How often the bell checks for new notifications
+const NOTIFICATION_POLL_MS = 60 * 1000;
+
+function NotificationsMenu() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const res = await fetch('/api/v1/notifications?limit=10', { credentials: 'include' });
+      if (!res.ok) return;
+
+      const data = await res.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch {
+      // Keep showing the last notifications until the next poll
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, NOTIFICATION_POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  const handleMarkAllRead = async () => {
+    await fetch('/api/v1/notifications/read-all', { method: 'POST', credentials: 'include' });
+    await loadNotifications();
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="ghost" size="icon" onClick={() => setOpen((prev) => !prev)}>
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-[10px] font-medium text-white flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 rounded-lg border border-border bg-card shadow-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <p className="text-sm font-medium">Notifications</p>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-primary hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-muted-foreground">No notifications</p>
+            ) : (
+              notifications.map((notification) => (
+                <Link
+                  key={notification.id}
+                  href="/accounts"
+                  onClick={() => setOpen(false)}
+                  className={cn(
+                    'block px-4 py-3 border-b border-border last:border-0 hover:bg-muted/50',
+                    !notification.readAt && 'bg-primary/5'
+                  )}
+                >
+                  <p className="text-sm font-medium">{notification.title}</p>
+                  <p className="text-xs text-muted-foreground mt-0.5">{notification.message}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{formatDate(notification.createdAt)}</p>
+                </Link>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function DashboardLayout({
   children,
 }: {
@@ -125,9 +214,7 @@ export default function DashboardLayout({
             </h1>
           </div>
           <div className="flex items-center gap-3">
-            <Button variant="ghost" size="icon">
-              <Bell className="w-5 h-5" />
-            </Button>
+            <NotificationsMenu />
             <Button variant="ghost" size="icon">
               <LogOut className="w-5 h-5" />
             </Button>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import {
   RefreshCw,
   Check,
@@ -11,69 +11,80 @@ import {
   Play,
   Pause,
   ChevronDown,
+  RotateCcw,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/src/components/ui/card';
 import { Button } from '@/src/components/ui/button';
 import { Progress } from '@/src/components/ui/progress';
 import { cn, formatDate } from '@/src/lib/utils';
 
-// Mock data
-const mockSyncJobs = [
-  {
-    id: '1',
-    accountName: 'Main Brand Account',
-    accountExternalId: '123-456-7890',
-    jobType: 'DAILY_SYNC',
-    status: 'COMPLETED',
-    dateFrom: '2024-12-16',
-    dateTo: '2024-12-17',
-    startedAt: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
-    completedAt: new Date(Date.now() - 25 * 60 * 1000).toISOString(),
-    metrics: { rowsProcessed: 156, durationMs: 45000 },
-  },
-  {
-    id: '2',
-    accountName: 'Performance Max',
-    accountExternalId: '234-567-8901',
-    jobType: 'MANUAL_SYNC',
-    status: 'RUNNING',
-    dateFrom: '2024-12-01',
-    dateTo: '2024-12-17',
-    startedAt: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
-    completedAt: null,
-    metrics: null,
-  },
-  {
-    id: '3',
-    accountName: 'EU Market Account',
-    accountExternalId: '345-678-9012',
-    jobType: 'DAILY_SYNC',
-    status: 'FAILED',
-    dateFrom: '2024-12-16',
-    dateTo: '2024-12-17',
-    startedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
-    completedAt: new Date(Date.now() - 55 * 60 * 1000).toISOString(),
-    errorMessage: 'Rate limit exceeded. Will retry automatically.',
-    metrics: null,
-  },
-  {
-    id: '4',
-    accountName: 'Main Brand Account',
-    accountExternalId: '123-456-7890',
-    jobType: 'BACKFILL',
-    status: 'PENDING',
-    dateFrom: '2024-09-01',
-    dateTo: '2024-12-01',
-    startedAt: null,
-    completedAt: null,
-    metrics: null,
-  },
-];
-
-const queueStats = {
-  sync: { waiting: 2, active: 1, completed: 1547, failed: 23, delayed: 0 },
-  dimensions: { waiting: 0, active: 0, completed: 89, failed: 2, delayed: 0 },
-};
+interface SyncJob {
+  id: string;
+  accountId: string;
+  accountName: string;
+  accountExternalId: string;
+  jobType: string;
+  status: string;
+  dateFrom: string;
+  dateTo: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  errorMessage: string | null;
+  metrics: {
+    rowsProcessed?: number;
+    durationMs?: number;
+    progress?: number;
+    chunksTotal?: number;
+    chunksCompleted?: number;
+    chunksFailed?: number;
+  } | null;
+}
+
+interface DeadLetterJob {
+  id: string;
+  accountName: string;
+  accountExternalId: string;
+  jobType: string;
+  dateFrom: string;
+  dateTo: string;
+  errorMessage: string | null;
+  failureKind: string | null;
+  attempts: number;
+  deadLetteredAt: string;
+}
+
+interface QueueCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+interface SyncEvent {
+  type: 'active' | 'progress' | 'completed' | 'failed';
+  jobId: string;
+  accountId: string;
+  parentJobId?: string;
+  status: string;
+  progress?: number;
+  rowsProcessed?: number;
+  error?: string;
+}
+
+const SYNC_EVENT_TYPES = ['active', 'progress', 'completed', 'failed'] as const;
+
+// Reload at most this often while events stream in
+const RELOAD_INTERVAL_MS = 2000;
+
+// A backfill's progress: its finished chunks plus the progress of running ones
+function backfillProgress(job: SyncJob, chunks: Record<string, number> | undefined): number | undefined {
+  const total = job.metrics?.chunksTotal;
+  if (!total || !chunks) return undefined;
+
+  const running = Object.values(chunks).reduce((sum, value) => sum + value, 0);
+  return Math.round(((job.metrics?.chunksCompleted ?? 0) * 100 + running) / total);
+}
 
 function StatusBadge({ status }: { status: string }) {
   const config: Record<string, { icon: React.ElementType; label: string; className: string }> = {
@@ -110,17 +121,235 @@ function JobTypeBadge({ type }: { type: string }) {
   );
 }
 
+function FailureKindBadge({ kind }: { kind: string | null }) {
+  const config: Record<string, { label: string; className: string }> = {
+    AUTH_EXPIRED: { label: 'Auth expired', className: 'bg-amber-500/10 text-amber-400' },
+    PERMISSION_DENIED: { label: 'No access', className: 'bg-amber-500/10 text-amber-400' },
+    ACCOUNT_DISABLED: { label: 'Account disabled', className: 'bg-gray-500/10 text-gray-400' },
+    QUOTA: { label: 'Quota', className: 'bg-orange-500/10 text-orange-400' },
+    TRANSIENT: { label: 'Network', className: 'bg-sky-500/10 text-sky-400' },
+    BAD_QUERY: { label: 'Bad query', className: 'bg-red-500/10 text-red-400' },
+    DATA_ERROR: { label: 'Data error', className: 'bg-red-500/10 text-red-400' },
+    UNKNOWN: { label: 'Unknown', className: 'bg-gray-500/10 text-gray-400' },
+  };
+
+  const { label, className } = config[kind ?? 'UNKNOWN'] || config.UNKNOWN;
+
+  return (
+    <span className={cn('px-2 py-0.5 rounded text-xs font-medium', className)}>
+      {label}
+    </span>
+  );
+}
+
+function QueueStatsCard({ title, stats }: { title: string; stats: QueueCounts }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-5 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold text-amber-400">{stats.waiting}</p>
+            <p className="text-xs text-muted-foreground">Waiting</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-violet-400">{stats.active}</p>
+            <p className="text-xs text-muted-foreground">Active</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-emerald-400">{stats.completed}</p>
+            <p className="text-xs text-muted-foreground">Completed</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-red-400">{stats.failed}</p>
+            <p className="text-xs text-muted-foreground">Failed</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-muted-foreground">{stats.delayed}</p>
+            <p className="text-xs text-muted-foreground">Delayed</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function SyncPage() {
+  const [jobs, setJobs] = useState<SyncJob[]>([]);
+  const [queueStats, setQueueStats] = useState<{ sync: QueueCounts; dimensions: QueueCounts } | null>(null);
+  const [deadLetter, setDeadLetter] = useState<{ jobs: DeadLetterJob[]; total: number }>({ jobs: [], total: 0 });
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  // Progress of running backfill chunks, keyed by parent job then chunk
+  const [chunkProgress, setChunkProgress] = useState<Record<string, Record<string, number>>>({});
+  const [isLive, setIsLive] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const reloadTimer = useRef<ReturnType<typeof setTimeout>>();
+  const lastReload = useRef(0);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+
+  const loadData = useCallback(async () => {
+    try {
+      const [jobsRes, statsRes, deadLetterRes] = await Promise.all([
+        fetch('/api/v1/sync/jobs?limit=20', { credentials: 'include' }),
+        fetch('/api/v1/sync/queue-stats', { credentials: 'include' }),
+        fetch('/api/v1/sync/dead-letter?limit=20', { credentials: 'include' }),
+      ]);
+
+      if (!jobsRes.ok) {
+        throw new Error('Failed to load sync jobs');
+      }
+
+      const data = await jobsRes.json();
+      setJobs(data.jobs);
+      setError(null);
+
+      // Queue stats are admin-only
+      setQueueStats(statsRes.ok ? await statsRes.json() : null);
+
+      if (deadLetterRes.ok) {
+        const deadLetterData = await deadLetterRes.json();
+        setDeadLetter({ jobs: deadLetterData.jobs, total: deadLetterData.pagination.total });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sync jobs');
+    }
+  }, []);
+
+  // Throttle reloads: events arriving while one is pending share it, so a
+  // steady stream still reloads once per interval and the last event is
+  // always followed by a reload
+  const scheduleReload = useCallback(() => {
+    if (reloadTimer.current) return;
+
+    const wait = Math.max(0, lastReload.current + RELOAD_INTERVAL_MS - Date.now());
+    reloadTimer.current = setTimeout(() => {
+      reloadTimer.current = undefined;
+      lastReload.current = Date.now();
+      loadData();
+    }, wait);
+  }, [loadData]);
+
+  useEffect(() => {
+    loadData();
+
+    const source = new EventSource('/api/v1/sync/events', { withCredentials: true });
+    source.onopen = () => setIsLive(true);
+    source.onerror = () => setIsLive(false);
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: SyncEvent = JSON.parse(message.data);
+      const finished = event.type === 'completed' || event.type === 'failed';
+
+      // Backfill chunks are listed through their parent, so apply them to it
+      if (event.parentJobId) {
+        const parentJobId = event.parentJobId;
+        const known = jobsRef.current.some((job) => job.id === parentJobId);
+
+        setChunkProgress((prev) => {
+          const chunks = { ...prev[parentJobId] };
+          if (finished) {
+            delete chunks[event.jobId];
+          } else {
+            chunks[event.jobId] = event.progress ?? chunks[event.jobId] ?? 0;
+          }
+          return { ...prev, [parentJobId]: chunks };
+        });
+
+        setJobs((prev) =>
+          prev.map((job) => {
+            if (job.id !== parentJobId) return job;
+            const completed = event.type === 'completed' && event.status === 'COMPLETED';
+            return {
+              ...job,
+              // A backfill runs while any of its chunks does
+              status: finished ? job.status : 'RUNNING',
+              startedAt: job.startedAt ?? new Date().toISOString(),
+              metrics: completed
+                ? { ...job.metrics, chunksCompleted: (job.metrics?.chunksCompleted ?? 0) + 1 }
+                : job.metrics,
+            };
+          })
+        );
+
+        // Finished chunks change the parent's counts, status and metrics
+        if (!known || finished) {
+          scheduleReload();
+        }
+        return;
+      }
+
+      if (event.progress !== undefined) {
+        setProgress((prev) => ({ ...prev, [event.jobId]: event.progress! }));
+      }
+
+      const known = jobsRef.current.some((job) => job.id === event.jobId);
+      setJobs((prev) =>
+        prev.map((job) => {
+          if (job.id !== event.jobId) return job;
+          return {
+            ...job,
+            status: event.status,
+            errorMessage: event.error ?? job.errorMessage,
+            startedAt: job.startedAt ?? new Date().toISOString(),
+          };
+        })
+      );
+
+      // Finished jobs carry metrics, and unknown jobs are new
+      if (!known || finished) {
+        scheduleReload();
+      }
+    };
+
+    for (const type of SYNC_EVENT_TYPES) {
+      source.addEventListener(type, handleEvent);
+    }
+
+    return () => {
+      source.close();
+      clearTimeout(reloadTimer.current);
+    };
+  }, [loadData, scheduleReload]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await loadData();
     setIsRefreshing(false);
   };
 
-  const runningJobs = mockSyncJobs.filter((j) => j.status === 'RUNNING');
-  const pendingJobs = mockSyncJobs.filter((j) => j.status === 'PENDING');
+  // Retry one dead-lettered job, or all of them when no ID is given
+  const handleRetry = async (jobId?: string) => {
+    setRetrying(jobId ?? 'all');
+    try {
+      const res = await fetch(jobId ? `/api/v1/sync/jobs/${jobId}/retry` : '/api/v1/sync/jobs/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to retry jobs');
+      }
+
+      setError(null);
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry jobs');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  // Queue stats load only for admins, who are also the ones allowed to retry
+  const canRetry = queueStats !== null;
+  const runningJobs = jobs.filter((j) => j.status === 'RUNNING');
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -128,7 +357,18 @@ export default function SyncPage() {
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold">Sync Status</h1>
-          <p className="text-muted-foreground">Monitor data synchronization jobs</p>
+          <p className="text-muted-foreground flex items-center gap-2">
+            Monitor data synchronization jobs
+            <span
+              className={cn(
+                'inline-flex items-center gap-1 text-xs',
+                isLive ? 'text-emerald-400' : 'text-muted-foreground'
+              )}
+            >
+              <span className={cn('w-2 h-2 rounded-full', isLive ? 'bg-emerald-400' : 'bg-muted-foreground')} />
+              {isLive ? 'Live' : 'Offline'}
+            </span>
+          </p>
         </div>
         <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
           <RefreshCw className={cn('w-4 h-4 mr-2', isRefreshing && 'animate-spin')} />
@@ -136,68 +376,19 @@ export default function SyncPage() {
         </Button>
       </div>
 
-      {/* Queue Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Sync Queue</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-5 gap-4 text-center">
-              <div>
-                <p className="text-2xl font-bold text-amber-400">{queueStats.sync.waiting}</p>
-                <p className="text-xs text-muted-foreground">Waiting</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-violet-400">{queueStats.sync.active}</p>
-                <p className="text-xs text-muted-foreground">Active</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-emerald-400">{queueStats.sync.completed}</p>
-                <p className="text-xs text-muted-foreground">Completed</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-red-400">{queueStats.sync.failed}</p>
-                <p className="text-xs text-muted-foreground">Failed</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-muted-foreground">{queueStats.sync.delayed}</p>
-                <p className="text-xs text-muted-foreground">Delayed</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+      {error && (
+        <div className="p-4 rounded-lg border border-red-500/20 bg-red-500/5 text-sm text-red-400">
+          {error}
+        </div>
+      )}
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Dimensions Queue</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-5 gap-4 text-center">
-              <div>
-                <p className="text-2xl font-bold text-amber-400">{queueStats.dimensions.waiting}</p>
-                <p className="text-xs text-muted-foreground">Waiting</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-violet-400">{queueStats.dimensions.active}</p>
-                <p className="text-xs text-muted-foreground">Active</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-emerald-400">{queueStats.dimensions.completed}</p>
-                <p className="text-xs text-muted-foreground">Completed</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-red-400">{queueStats.dimensions.failed}</p>
-                <p className="text-xs text-muted-foreground">Failed</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-muted-foreground">{queueStats.dimensions.delayed}</p>
-                <p className="text-xs text-muted-foreground">Delayed</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+      {/* Queue Stats */}
+      {queueStats && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <QueueStatsCard title="Sync Queue" stats={queueStats.sync} />
+          <QueueStatsCard title="Dimensions Queue" stats={queueStats.dimensions} />
+        </div>
+      )}
 
       {/* Running Jobs */}
       {runningJobs.length > 0 && (
@@ -209,25 +400,82 @@ export default function SyncPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {runningJobs.map((job) => (
-              <div key={job.id} className="p-4 rounded-lg border border-violet-500/20 bg-violet-500/5">
-                <div className="flex items-center justify-between mb-3">
-                  <div className="flex items-center gap-3">
-                    <h3 className="font-medium">{job.accountName}</h3>
-                    <JobTypeBadge type={job.jobType} />
+            {runningJobs.map((job) => {
+              const value = progress[job.id] ?? backfillProgress(job, chunkProgress[job.id]) ?? job.metrics?.progress ?? 0;
+
+              return (
+                <div key={job.id} className="p-4 rounded-lg border border-violet-500/20 bg-violet-500/5">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-medium">{job.accountName}</h3>
+                      <JobTypeBadge type={job.jobType} />
+                    </div>
+                    <StatusBadge status={job.status} />
                   </div>
-                  <StatusBadge status={job.status} />
+                  <div className="mb-3">
+                    <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                      <span>Syncing {job.dateFrom.slice(0, 10)} to {job.dateTo.slice(0, 10)}</span>
+                      <span>{value}%</span>
+                    </div>
+                    <Progress value={value} className="h-2" />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Started {new Date(job.startedAt!).toLocaleTimeString()}
+                  </p>
                 </div>
-                <div className="mb-3">
-                  <div className="flex justify-between text-xs text-muted-foreground mb-1">
-                    <span>Syncing {job.dateFrom} to {job.dateTo}</span>
-                    <span>In progress...</span>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dead Letter */}
+      {deadLetter.jobs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                  Dead Letter
+                </CardTitle>
+                <CardDescription>
+                  {deadLetter.total} job{deadLetter.total === 1 ? '' : 's'} failed permanently and will not retry on their own
+                </CardDescription>
+              </div>
+              {canRetry && (
+                <Button variant="outline" size="sm" onClick={() => handleRetry()} disabled={retrying !== null}>
+                  <RotateCcw className={cn('w-4 h-4 mr-2', retrying === 'all' && 'animate-spin')} />
+                  Retry All
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {deadLetter.jobs.map((job) => (
+              <div
+                key={job.id}
+                className="flex items-start justify-between gap-4 p-4 rounded-lg border border-red-500/20 bg-red-500/5"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="font-medium">{job.accountName}</h3>
+                    <JobTypeBadge type={job.jobType} />
+                    <FailureKindBadge kind={job.failureKind} />
                   </div>
-                  <Progress value={45} className="h-2" />
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {job.dateFrom.slice(0, 10)} → {job.dateTo.slice(0, 10)} · {job.attempts} attempt{job.attempts === 1 ? '' : 's'} · failed {formatDate(job.deadLetteredAt)}
+                  </p>
+                  {job.errorMessage && (
+                    <p className="text-sm text-red-400 truncate">{job.errorMessage}</p>
+                  )}
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Started {new Date(job.startedAt!).toLocaleTimeString()}
-                </p>
+                {canRetry && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRetry(job.id)} disabled={retrying !== null}>
+                    <RotateCcw className={cn('w-4 h-4 mr-2', retrying === job.id && 'animate-spin')} />
+                    Retry
+                  </Button>
+                )}
               </div>
             ))}
           </CardContent>
@@ -262,7 +510,14 @@ export default function SyncPage() {
                 </tr>
               </thead>
               <tbody>
-                {mockSyncJobs.map((job) => {
+                {jobs.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-sm text-muted-foreground">
+                      No sync jobs yet
+                    </td>
+                  </tr>
+                )}
+                {jobs.map((job) => {
                   const duration = job.startedAt && job.completedAt
                     ? Math.round((new Date(job.completedAt).getTime() - new Date(job.startedAt).getTime()) / 1000)
                     : null;
@@ -279,7 +534,7 @@ export default function SyncPage() {
                         <JobTypeBadge type={job.jobType} />
                       </td>
                       <td className="py-3 px-4 text-sm text-muted-foreground">
-                        {job.dateFrom} → {job.dateTo}
+                        {job.dateFrom.slice(0, 10)} → {job.dateTo.slice(0, 10)}
                       </td>
                       <td className="py-3 px-4">
                         <StatusBadge status={job.status} />
@@ -312,10 +567,10 @@ export default function SyncPage() {
             <div className="p-4 rounded-lg bg-muted/50">
               <h3 className="font-medium mb-1">Daily Sync</h3>
               <p className="text-sm text-muted-foreground mb-2">
-                Runs every day at 6:00 AM UTC
+                Runs every day at 6:00 AM account time
               </p>
               <p className="text-xs text-muted-foreground">
-                Syncs yesterday's and today's data
+                Re-syncs recent days to capture late conversions
               </p>
             </div>
             <div className="p-4 rounded-lg bg-muted/50">
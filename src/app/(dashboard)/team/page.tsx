@@ -1,15 +1,16 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   UserPlus,
-  MoreVertical,
   Shield,
   Eye,
-  Mail,
+  Users,
   Trash2,
-  Crown,
   Loader2,
+  AlertCircle,
+  RefreshCw,
+  Lock,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/src/components/ui/card';
 import { Button } from '@/src/components/ui/button';
@@ -23,55 +24,22 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/src/components/ui/select';
-import { cn } from '@/src/lib/utils';
-
-// Mock team data
-const mockMembers = [
-  {
-    id: '1',
-    email: 'demo@example.com',
-    firstName: 'Demo',
-    lastName: 'User',
-    role: 'ADMIN',
-    joinedAt: '2024-01-15T10:00:00Z',
-    lastActive: '2024-12-17T14:30:00Z',
-    isCurrentUser: true,
-  },
-  {
-    id: '2',
-    email: 'sarah@example.com',
-    firstName: 'Sarah',
-    lastName: 'Johnson',
-    role: 'ADMIN',
-    joinedAt: '2024-02-20T09:00:00Z',
-    lastActive: '2024-12-17T11:45:00Z',
-    isCurrentUser: false,
-  },
-  {
-    id: '3',
-    email: 'mike@example.com',
-    firstName: 'Mike',
-    lastName: 'Chen',
-    role: 'VIEWER',
-    joinedAt: '2024-06-10T14:00:00Z',
-    lastActive: '2024-12-16T16:20:00Z',
-    isCurrentUser: false,
-  },
-  {
-    id: '4',
-    email: 'alex@example.com',
-    firstName: 'Alex',
-    lastName: 'Rivera',
-    role: 'VIEWER',
-    joinedAt: '2024-09-05T11:00:00Z',
-    lastActive: '2024-12-15T09:10:00Z',
-    isCurrentUser: false,
-  },
-];
-
-const pendingInvites = [
-  { email: 'jane@example.com', role: 'VIEWER', sentAt: '2024-12-15T10:00:00Z' },
-];
+import { cn, formatDate } from '@/src/lib/utils';
+import {
+  ApiError,
+  addMember,
+  getCurrentUser,
+  getMembers,
+  removeMember,
+  updateMemberRole,
+  Member,
+  Role,
+} from '@/src/lib/api-client';
+
+// A change waiting for the admin to confirm it
+type PendingAction =
+  | { type: 'role'; member: Member; role: Role }
+  | { type: 'remove'; member: Member };
 
 function RoleBadge({ role }: { role: string }) {
   return (
@@ -89,44 +57,125 @@ function RoleBadge({ role }: { role: string }) {
   );
 }
 
-function getInitials(firstName: string, lastName: string) {
-  return `${firstName[0]}${lastName[0]}`.toUpperCase();
+function getDisplayName(member: Member) {
+  const name = [member.user.firstName, member.user.lastName].filter(Boolean).join(' ');
+  return name || member.user.email;
+}
+
+function getInitials(member: Member) {
+  const { firstName, lastName, email } = member.user;
+  const initials = `${firstName?.[0] ?? ''}${lastName?.[0] ?? ''}`;
+  return (initials || email[0]).toUpperCase();
 }
 
-function formatRelativeTime(dateStr: string) {
-  const date = new Date(dateStr);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffMins = Math.floor(diffMs / 60000);
-  const diffHours = Math.floor(diffMs / 3600000);
-  const diffDays = Math.floor(diffMs / 86400000);
-
-  if (diffMins < 1) return 'Just now';
-  if (diffMins < 60) return `${diffMins}m ago`;
-  if (diffHours < 24) return `${diffHours}h ago`;
-  if (diffDays < 7) return `${diffDays}d ago`;
-  return date.toLocaleDateString();
+// Turn an API failure into something the admin can act on
+function describeError(err: unknown, fallback: string): string {
+  if (err instanceof ApiError && err.status === 403) {
+    return 'Only admins can manage team members.';
+  }
+  return err instanceof Error ? err.message : fallback;
 }
 
 export default function TeamPage() {
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [members, setMembers] = useState<Member[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
   const [showInviteForm, setShowInviteForm] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
-  const [inviteRole, setInviteRole] = useState('VIEWER');
+  const [inviteRole, setInviteRole] = useState<Role>('VIEWER');
   const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    setLoadError(null);
+
+    getCurrentUser(controller.signal)
+      .then(async (me) => {
+        const orgId = me.organizationId ?? me.organizations[0]?.id;
+        if (!orgId) {
+          throw new Error('You are not a member of any organization');
+        }
+
+        setOrganizationId(orgId);
+        setCurrentUserId(me.user.id);
+        setMembers(await getMembers(orgId, controller.signal));
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setLoadError(describeError(err, 'Failed to load team'));
+      });
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const currentMember = members?.find((m) => m.user.id === currentUserId);
+  const isAdmin = currentMember?.role === 'ADMIN';
+  const adminCount = members?.filter((m) => m.role === 'ADMIN').length ?? 0;
+  const viewerCount = members?.filter((m) => m.role === 'VIEWER').length ?? 0;
+
+  // The server refuses these too; checking here explains why up front
+  const isLastAdmin = (member: Member) => member.role === 'ADMIN' && adminCount <= 1;
 
   const handleInvite = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!organizationId) return;
+
     setIsInviting(true);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setIsInviting(false);
-    setShowInviteForm(false);
-    setInviteEmail('');
-    setInviteRole('VIEWER');
+    setInviteError(null);
+
+    try {
+      const member = await addMember(organizationId, { email: inviteEmail.trim(), role: inviteRole });
+      setMembers((prev) => [...(prev ?? []), member]);
+      setShowInviteForm(false);
+      setInviteEmail('');
+      setInviteRole('VIEWER');
+    } catch (err) {
+      setInviteError(
+        err instanceof ApiError && err.status === 404
+          ? 'No user has signed up with that email yet. Ask them to create an account, then add them here.'
+          : describeError(err, 'Failed to add member')
+      );
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const applyPendingAction = async () => {
+    if (!pendingAction || !organizationId) return;
+
+    setIsApplying(true);
+    setActionError(null);
+
+    const { member } = pendingAction;
+
+    try {
+      if (pendingAction.type === 'role') {
+        await updateMemberRole(organizationId, member.id, pendingAction.role);
+        setMembers((prev) =>
+          prev?.map((m) => (m.id === member.id ? { ...m, role: pendingAction.role } : m)) ?? null
+        );
+      } else {
+        await removeMember(organizationId, member.id);
+        setMembers((prev) => prev?.filter((m) => m.id !== member.id) ?? null);
+      }
+    } catch (err) {
+      setActionError(describeError(err, 'Failed to update member'));
+    } finally {
+      setIsApplying(false);
+      setPendingAction(null);
+    }
   };
 
-  const adminCount = mockMembers.filter((m) => m.role === 'ADMIN').length;
-  const viewerCount = mockMembers.filter((m) => m.role === 'VIEWER').length;
+  const pendingIsSelf = pendingAction?.member.user.id === currentUserId;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -134,224 +183,318 @@ export default function TeamPage() {
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold">Team</h1>
-          <p className="text-muted-foreground">Manage your organization members</p>
+          <p className="text-muted-foreground">
+            {isAdmin || !members ? 'Manage your organization members' : 'People in your organization'}
+          </p>
         </div>
-        <Button onClick={() => setShowInviteForm(true)}>
-          <UserPlus className="w-4 h-4 mr-2" />
-          Invite Member
-        </Button>
+        {isAdmin && (
+          <Button onClick={() => setShowInviteForm(true)}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add Member
+          </Button>
+        )}
       </div>
 
-      {/* Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-lg bg-violet-500/10 flex items-center justify-center">
-                <Shield className="w-5 h-5 text-violet-400" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{adminCount}</p>
-                <p className="text-sm text-muted-foreground">Admins</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
-                <Eye className="w-5 h-5 text-muted-foreground" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{viewerCount}</p>
-                <p className="text-sm text-muted-foreground">Viewers</p>
-              </div>
-            </div>
+      {loadError ? (
+        <Card className="border-red-500/20">
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-3" />
+            <h3 className="font-semibold mb-1">Could not load team</h3>
+            <p className="text-sm text-muted-foreground mb-4">{loadError}</p>
+            <Button variant="outline" onClick={() => setReloadKey((prev) => prev + 1)}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
           </CardContent>
         </Card>
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-lg bg-yellow-500/10 flex items-center justify-center">
-                <Mail className="w-5 h-5 text-yellow-500" />
-              </div>
-              <div>
-                <p className="text-2xl font-bold">{pendingInvites.length}</p>
-                <p className="text-sm text-muted-foreground">Pending Invites</p>
-              </div>
+      ) : !members ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {Array.from({ length: 3 }, (_, i) => (
+              <Card key={i}>
+                <CardContent className="p-4">
+                  <div className="h-10 w-32 bg-muted rounded animate-pulse" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              {Array.from({ length: 3 }, (_, i) => (
+                <div key={i} className="h-16 bg-muted rounded animate-pulse" />
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <>
+          {!isAdmin && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+              <Lock className="w-4 h-4" />
+              You have view-only access. Ask an admin to add members or change roles.
             </div>
-          </CardContent>
-        </Card>
-      </div>
+          )}
 
-      {/* Invite Form */}
-      {showInviteForm && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Invite Team Member</CardTitle>
-            <CardDescription>Send an invitation to join your organization</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleInvite} className="space-y-4">
-              <div className="grid md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email address</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="colleague@company.com"
-                    value={inviteEmail}
-                    onChange={(e) => setInviteEmail(e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="role">Role</Label>
-                  <Select value={inviteRole} onValueChange={setInviteRole}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="VIEWER">
-                        <div className="flex items-center gap-2">
-                          <Eye className="w-4 h-4" />
-                          Viewer - Can view dashboards
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="ADMIN">
-                        <div className="flex items-center gap-2">
-                          <Shield className="w-4 h-4" />
-                          Admin - Full access
-                        </div>
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <div className="flex gap-2">
-                <Button type="submit" disabled={isInviting}>
-                  {isInviting ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Sending...
-                    </>
-                  ) : (
-                    'Send Invitation'
-                  )}
-                </Button>
-                <Button type="button" variant="outline" onClick={() => setShowInviteForm(false)}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Pending Invites */}
-      {pendingInvites.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Pending Invitations</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              {pendingInvites.map((invite) => (
-                <div
-                  key={invite.email}
-                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
-                >
-                  <div className="flex items-center gap-3">
-                    <Avatar className="w-10 h-10">
-                      <AvatarFallback className="bg-yellow-500/10 text-yellow-500">
-                        <Mail className="w-4 h-4" />
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium">{invite.email}</p>
-                      <p className="text-xs text-muted-foreground">
-                        Invited {formatRelativeTime(invite.sentAt)}
-                      </p>
-                    </div>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-violet-500/10 flex items-center justify-center">
+                    <Shield className="w-5 h-5 text-violet-400" />
                   </div>
-                  <div className="flex items-center gap-3">
-                    <RoleBadge role={invite.role} />
-                    <Button variant="outline" size="sm">
-                      Resend
-                    </Button>
-                    <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
-                      Cancel
-                    </Button>
+                  <div>
+                    <p className="text-2xl font-bold">{adminCount}</p>
+                    <p className="text-sm text-muted-foreground">Admins</p>
                   </div>
                 </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Members List */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Team Members</CardTitle>
-          <CardDescription>{mockMembers.length} members in your organization</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {mockMembers.map((member) => (
-              <div
-                key={member.id}
-                className={cn(
-                  'flex items-center justify-between p-4 rounded-lg border transition-colors',
-                  member.isCurrentUser ? 'border-primary/50 bg-primary/5' : 'border-border hover:bg-muted/50'
-                )}
-              >
-                <div className="flex items-center gap-4">
-                  <Avatar className="w-12 h-12">
-                    <AvatarFallback className="bg-primary/10 text-primary font-medium">
-                      {getInitials(member.firstName, member.lastName)}
-                    </AvatarFallback>
-                  </Avatar>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
+                    <Eye className="w-5 h-5 text-muted-foreground" />
+                  </div>
                   <div>
-                    <div className="flex items-center gap-2">
-                      <p className="font-medium">
-                        {member.firstName} {member.lastName}
-                      </p>
-                      {member.isCurrentUser && (
-                        <span className="text-xs text-primary">(You)</span>
-                      )}
-                    </div>
-                    <p className="text-sm text-muted-foreground">{member.email}</p>
-                    <p className="text-xs text-muted-foreground mt-0.5">
-                      Last active: {formatRelativeTime(member.lastActive)}
-                    </p>
+                    <p className="text-2xl font-bold">{viewerCount}</p>
+                    <p className="text-sm text-muted-foreground">Viewers</p>
                   </div>
                 </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
                 <div className="flex items-center gap-3">
-                  <RoleBadge role={member.role} />
-                  {!member.isCurrentUser && (
-                    <div className="flex items-center gap-1">
-                      <Select defaultValue={member.role}>
-                        <SelectTrigger className="w-[120px] h-8">
+                  <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <Users className="w-5 h-5 text-primary" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold">{members.length}</p>
+                    <p className="text-sm text-muted-foreground">Total Members</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Add Member Form */}
+          {isAdmin && showInviteForm && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Add Team Member</CardTitle>
+                <CardDescription>Add someone who already has an account to your organization</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleInvite} className="space-y-4">
+                  {inviteError && (
+                    <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 text-sm text-red-500">
+                      <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                      {inviteError}
+                    </div>
+                  )}
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email address</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="colleague@company.com"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="role">Role</Label>
+                      <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as Role)}>
+                        <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="ADMIN">Admin</SelectItem>
-                          <SelectItem value="VIEWER">Viewer</SelectItem>
+                          <SelectItem value="VIEWER">
+                            <div className="flex items-center gap-2">
+                              <Eye className="w-4 h-4" />
+                              Viewer - Can view dashboards
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="ADMIN">
+                            <div className="flex items-center gap-2">
+                              <Shield className="w-4 h-4" />
+                              Admin - Full access
+                            </div>
+                          </SelectItem>
                         </SelectContent>
                       </Select>
-                      <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive h-8 w-8">
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
                     </div>
-                  )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" disabled={isInviting}>
+                      {isInviting ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Adding...
+                        </>
+                      ) : (
+                        'Add Member'
+                      )}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => {
+                        setShowInviteForm(false);
+                        setInviteError(null);
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Members List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Team Members</CardTitle>
+              <CardDescription>
+                {members.length} member{members.length !== 1 ? 's' : ''} in your organization
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {actionError && (
+                <div className="flex items-start gap-2 p-3 mb-4 rounded-lg bg-red-500/10 text-sm text-red-500">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  {actionError}
                 </div>
+              )}
+
+              <div className="space-y-3">
+                {members.map((member) => {
+                  const isCurrentUser = member.user.id === currentUserId;
+                  const lastAdmin = isLastAdmin(member);
+
+                  return (
+                    <div
+                      key={member.id}
+                      className={cn(
+                        'flex items-center justify-between p-4 rounded-lg border transition-colors',
+                        isCurrentUser ? 'border-primary/50 bg-primary/5' : 'border-border hover:bg-muted/50'
+                      )}
+                    >
+                      <div className="flex items-center gap-4">
+                        <Avatar className="w-12 h-12">
+                          <AvatarFallback className="bg-primary/10 text-primary font-medium">
+                            {getInitials(member)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{getDisplayName(member)}</p>
+                            {isCurrentUser && <span className="text-xs text-primary">(You)</span>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">{member.user.email}</p>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Joined {formatDate(member.joinedAt)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {isAdmin ? (
+                          <div className="flex items-center gap-1">
+                            <Select
+                              value={member.role}
+                              onValueChange={(role) => {
+                                setActionError(null);
+                                setPendingAction({ type: 'role', member, role: role as Role });
+                              }}
+                              disabled={isApplying}
+                            >
+                              <SelectTrigger className="w-[120px] h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="ADMIN">Admin</SelectItem>
+                                <SelectItem value="VIEWER" disabled={lastAdmin}>
+                                  Viewer
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {!isCurrentUser && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-destructive hover:text-destructive h-8 w-8"
+                                disabled={lastAdmin || isApplying}
+                                title={lastAdmin ? 'The last admin cannot be removed' : 'Remove member'}
+                                onClick={() => {
+                                  setActionError(null);
+                                  setPendingAction({ type: 'remove', member });
+                                }}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        ) : (
+                          <RoleBadge role={member.role} />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+
+              {isAdmin && adminCount === 1 && (
+                <p className="text-xs text-muted-foreground mt-4">
+                  Every organization needs at least one admin. Make someone else an admin before stepping down.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Confirmation */}
+      {pendingAction && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {pendingAction.type === 'remove'
+                  ? 'Remove member?'
+                  : `Make ${pendingIsSelf ? 'yourself' : getDisplayName(pendingAction.member)} ${
+                      pendingAction.role === 'ADMIN' ? 'an admin' : 'a viewer'
+                    }?`}
+              </CardTitle>
+              <CardDescription>
+                {pendingAction.type === 'remove'
+                  ? `${getDisplayName(pendingAction.member)} will lose access to this organization's dashboards and accounts.`
+                  : pendingAction.role === 'ADMIN'
+                  ? 'Admins can connect accounts, trigger syncs and manage the team.'
+                  : pendingIsSelf
+                  ? 'You will lose admin access and will not be able to undo this yourself.'
+                  : 'They will keep read access but can no longer change accounts, syncs or the team.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPendingAction(null)} disabled={isApplying}>
+                Cancel
+              </Button>
+              <Button
+                variant={pendingAction.type === 'remove' ? 'destructive' : 'default'}
+                onClick={applyPendingAction}
+                disabled={isApplying}
+              >
+                {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {pendingAction.type === 'remove' ? 'Remove' : 'Change Role'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
 
       {/* Role Descriptions */}
       <Card>
@@ -422,4 +565,3 @@ export default function TeamPage() {
     </div>
   );
 }
-
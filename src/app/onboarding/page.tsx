@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   CheckCircle2,
@@ -10,11 +10,26 @@ import {
   Link2,
   ListChecks,
   Rocket,
+  AlertCircle,
+  XCircle,
+  Clock,
 } from 'lucide-react';
 import { Button } from '@/src/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/src/components/ui/card';
+import { Card, CardContent } from '@/src/components/ui/card';
+import { Progress } from '@/src/components/ui/progress';
 import { cn } from '@/src/lib/utils';
 import { MedulaLogo } from '@/src/components/ui/medula-logo';
+import {
+  getGoogleAuthUrl,
+  getGoogleCustomers,
+  getGoogleStatus,
+  getSyncJobs,
+  getSyncStatus,
+  linkAccounts,
+  AccountSyncState,
+  ConnectionStatus,
+  GoogleAdsCustomer,
+} from '@/src/lib/api-client';
 
 const steps = [
   {
@@ -37,28 +52,232 @@ const steps = [
   },
 ];
 
-// Mock accessible accounts
-const mockAccounts = [
-  { id: '123-456-7890', name: 'Main Brand Account', currency: 'USD' },
-  { id: '234-567-8901', name: 'Performance Max', currency: 'USD' },
-  { id: '345-678-9012', name: 'EU Market Account', currency: 'EUR' },
-  { id: '456-789-0123', name: 'Asia Pacific', currency: 'JPY' },
-];
+// Messages for the ?error= codes the OAuth callback redirects with
+const CALLBACK_ERRORS: Record<string, string> = {
+  oauth_denied: 'Access to Google Ads was not granted. Connect again and approve access to continue.',
+  missing_params: 'Google did not return an authorization code. Please try again.',
+  invalid_state: 'The sign-in request was not recognized. Please start again.',
+  expired_state: 'The sign-in request expired. Please start again.',
+  connection_mismatch: 'You signed in with a different Google account than the one this connection uses.',
+  unidentified_login: 'Google did not tell us which account you signed in with. Please try again.',
+  callback_failed: 'We could not finish connecting to Google Ads. Please try again.',
+};
+
+// How often initial sync progress is refreshed
+const SYNC_POLL_MS = 5000;
+
+interface SyncProgress {
+  account: AccountSyncState;
+  chunksDone: number;
+  chunksTotal: number;
+}
+
+// Client (non-manager) accounts anywhere below an account
+function clientsUnder(customers: GoogleAdsCustomer[], customerId: string): string[] {
+  return customers
+    .filter((c) => c.parentCustomerId === customerId)
+    .flatMap((c) => (c.isManager ? clientsUnder(customers, c.customerId) : [c.customerId]));
+}
+
+// Managers above an account, nearest first
+function managersAbove(customers: GoogleAdsCustomer[], customerId: string): GoogleAdsCustomer[] {
+  const byId = new Map(customers.map((c) => [c.customerId, c]));
+  const managers: GoogleAdsCustomer[] = [];
+
+  let parentId = byId.get(customerId)?.parentCustomerId ?? null;
+  while (parentId && byId.has(parentId) && !managers.some((m) => m.customerId === parentId)) {
+    const parent = byId.get(parentId)!;
+    managers.push(parent);
+    parentId = parent.parentCustomerId;
+  }
+
+  return managers;
+}
+
+function isFinished(progress: SyncProgress): boolean {
+  const { account } = progress;
+  return (
+    account.syncStatus === 'ERROR' ||
+    account.latestJob?.status === 'COMPLETED' ||
+    account.latestJob?.status === 'FAILED' ||
+    account.latestJob?.status === 'CANCELLED'
+  );
+}
+
+function GoogleIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" className={className}>
+      <path
+        fill="#4285F4"
+        d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+      />
+      <path
+        fill="#34A853"
+        d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+      />
+      <path
+        fill="#FBBC05"
+        d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+      />
+      <path
+        fill="#EA4335"
+        d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+      />
+    </svg>
+  );
+}
+
+function ErrorBanner({ message }: { message: string }) {
+  return (
+    <div className="flex items-start gap-2 p-3 mb-4 rounded-lg bg-red-500/10 text-sm text-red-500">
+      <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+}
 
 export default function OnboardingPage() {
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState(1);
+
+  // Step 1: connection
+  const [connections, setConnections] = useState<ConnectionStatus[] | null>(null);
+  const [connectionId, setConnectionId] = useState<string | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
+  const [connectError, setConnectError] = useState<string | null>(null);
+
+  // Step 2: account selection
+  const [customers, setCustomers] = useState<GoogleAdsCustomer[] | null>(null);
+  const [customersError, setCustomersError] = useState<string | null>(null);
   const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  // Step 3: initial sync
+  const [linkedAccountIds, setLinkedAccountIds] = useState<string[]>([]);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress[] | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  // Pick up the OAuth callback's result, then the connections it left
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const error = params.get('error');
+    const returnedConnectionId = params.get('connectionId');
+
+    if (error) {
+      setConnectError(CALLBACK_ERRORS[error] ?? 'Something went wrong connecting Google Ads. Please try again.');
+    }
+    if (error || params.has('success')) {
+      router.replace('/onboarding');
+    }
+
+    const controller = new AbortController();
+
+    getGoogleStatus(controller.signal)
+      .then(({ connections: all }) => {
+        const active = all.filter((c) => c.status === 'ACTIVE');
+        setConnections(active);
+
+        if (returnedConnectionId && active.some((c) => c.id === returnedConnectionId)) {
+          setConnectionId(returnedConnectionId);
+        } else if (active.length === 1) {
+          setConnectionId(active[0].id);
+        }
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setConnections([]);
+        setConnectError(err instanceof Error ? err.message : 'Failed to check Google Ads connection');
+      });
+
+    return () => controller.abort();
+  }, [router]);
+
+  // Load the connection's customers on reaching step 2
+  useEffect(() => {
+    if (currentStep !== 2 || !connectionId) return;
+
+    const controller = new AbortController();
+
+    setCustomers(null);
+    setCustomersError(null);
+
+    getGoogleCustomers(connectionId, controller.signal)
+      .then(({ customers: list }) => {
+        setCustomers(list);
+        // Start from what is already linked through this connection
+        setSelectedAccounts(
+          list.filter((c) => !c.isManager && c.linkedConnectionId === connectionId).map((c) => c.customerId)
+        );
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setCustomersError(err instanceof Error ? err.message : 'Failed to load Google Ads accounts');
+      });
+
+    return () => controller.abort();
+  }, [currentStep, connectionId]);
+
+  // Poll initial sync progress until every linked account has finished
+  useEffect(() => {
+    if (currentStep !== 3 || linkedAccountIds.length === 0) return;
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const accounts = (await getSyncStatus(controller.signal)).filter((a) => linkedAccountIds.includes(a.id));
+
+        // Initial syncs are backfills split into chunks; count the finished ones
+        const progress = await Promise.all(
+          accounts.map(async (account): Promise<SyncProgress> => {
+            if (!account.latestJob) {
+              return { account, chunksDone: 0, chunksTotal: 0 };
+            }
+
+            const chunks = await getSyncJobs({ parentId: account.latestJob.id, limit: 100 }, controller.signal);
+            return {
+              account,
+              chunksDone: chunks.filter((c) => c.status === 'COMPLETED').length,
+              chunksTotal: chunks.length,
+            };
+          })
+        );
+
+        setSyncProgress(progress);
+        setSyncError(null);
+
+        if (progress.length > 0 && progress.every(isFinished)) {
+          return;
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setSyncError(err instanceof Error ? err.message : 'Failed to check sync progress');
+      }
+
+      timer = setTimeout(poll, SYNC_POLL_MS);
+    };
+
+    poll();
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [currentStep, linkedAccountIds]);
 
   const handleConnectGoogle = async () => {
     setIsConnecting(true);
-    // Simulate OAuth flow
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setIsConnecting(false);
-    setIsConnected(true);
+    setConnectError(null);
+
+    try {
+      const authUrl = await getGoogleAuthUrl({ returnTo: 'onboarding' });
+      window.location.assign(authUrl);
+    } catch (err) {
+      setConnectError(err instanceof Error ? err.message : 'Failed to start Google sign-in');
+      setIsConnecting(false);
+    }
   };
 
   const handleAccountToggle = (accountId: string) => {
@@ -69,16 +288,131 @@ export default function OnboardingPage() {
     );
   };
 
-  const handleStartSync = async () => {
-    setIsSyncing(true);
-    // Simulate initial sync
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    router.push('/dashboard');
+  // Selecting a manager selects (or clears) every client account under it
+  const handleManagerToggle = (accountId: string) => {
+    const clients = clientsUnder(customers ?? [], accountId);
+    setSelectedAccounts((prev) =>
+      clients.every((id) => prev.includes(id))
+        ? prev.filter((id) => !clients.includes(id))
+        : Array.from(new Set([...prev, ...clients]))
+    );
+  };
+
+  // Link the selected clients, plus the managers above them so the
+  // hierarchy carries over to the accounts page
+  const handleLinkAccounts = async () => {
+    if (!customers || !connectionId) return;
+
+    setIsLinking(true);
+    setLinkError(null);
+
+    const selected = customers.filter((c) => selectedAccounts.includes(c.customerId));
+    const managers = selected.flatMap((c) => managersAbove(customers, c.customerId));
+    const toLink = Array.from(new Map([...managers, ...selected].map((c) => [c.customerId, c])).values());
+
+    try {
+      const { accounts } = await linkAccounts({
+        provider: 'GOOGLE_ADS',
+        connectionId,
+        accounts: toLink.map((c) => ({
+          externalId: c.customerId,
+          name: c.descriptiveName || c.customerId,
+          currency: c.currencyCode,
+          timezone: c.timeZone,
+          parentExternalId: c.parentCustomerId,
+          isManager: c.isManager,
+          loginCustomerId: c.loginCustomerId,
+        })),
+      });
+
+      setLinkedAccountIds(accounts.filter((a) => !a.isManager).map((a) => a.id));
+      setSyncProgress(null);
+      setCurrentStep(3);
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Failed to link accounts');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const renderAccounts = (parentId: string | null, depth: number): React.ReactNode => {
+    const list = customers ?? [];
+    const ids = new Set(list.map((c) => c.customerId));
+
+    return list
+      // Customers whose manager is not reachable show at the top level
+      .filter((account) =>
+        parentId === null
+          ? !account.parentCustomerId || !ids.has(account.parentCustomerId)
+          : account.parentCustomerId === parentId
+      )
+      .map((account) => {
+        const clients = account.isManager ? clientsUnder(list, account.customerId) : [account.customerId];
+        const selected = clients.length > 0 && clients.every((id) => selectedAccounts.includes(id));
+
+        return (
+          <div key={account.customerId}>
+            <button
+              onClick={() =>
+                account.isManager ? handleManagerToggle(account.customerId) : handleAccountToggle(account.customerId)
+              }
+              disabled={clients.length === 0}
+              style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+              className={cn(
+                'w-full flex items-center justify-between p-4 rounded-lg transition-colors disabled:opacity-50',
+                selected
+                  ? 'bg-primary/10 border-2 border-primary'
+                  : 'hover:bg-muted border-2 border-transparent'
+              )}
+            >
+              <div className="text-left">
+                <p className="font-medium flex items-center gap-2">
+                  {account.descriptiveName || account.customerId}
+                  {account.isManager && (
+                    <span className="px-2 py-0.5 rounded bg-muted text-xs font-medium text-muted-foreground">
+                      Manager
+                    </span>
+                  )}
+                  {account.isLinked && !account.isManager && (
+                    <span className="px-2 py-0.5 rounded bg-green-500/10 text-xs font-medium text-green-500">
+                      Linked
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  ID: {account.customerId} •{' '}
+                  {account.isManager ? `${clients.length} client account(s)` : account.currencyCode}
+                </p>
+              </div>
+              <div
+                className={cn(
+                  'w-6 h-6 rounded-full border-2 flex items-center justify-center',
+                  selected ? 'border-primary bg-primary' : 'border-muted-foreground'
+                )}
+              >
+                {selected && <CheckCircle2 className="w-4 h-4 text-white" />}
+              </div>
+            </button>
+            {account.isManager && (
+              <div className="space-y-1 mt-1">{renderAccounts(account.customerId, depth + 1)}</div>
+            )}
+          </div>
+        );
+      });
   };
 
   const nextStep = () => setCurrentStep((prev) => Math.min(prev + 1, 3));
   const prevStep = () => setCurrentStep((prev) => Math.max(prev - 1, 1));
 
+  const connection = connections?.find((c) => c.id === connectionId);
+
+  const chunksTotal = syncProgress?.reduce((sum, p) => sum + p.chunksTotal, 0) ?? 0;
+  const chunksDone = syncProgress?.reduce((sum, p) => sum + p.chunksDone, 0) ?? 0;
+  const syncPercent = chunksTotal > 0 ? Math.round((chunksDone / chunksTotal) * 100) : 0;
+  const syncFinished = Boolean(syncProgress?.length) && syncProgress!.every(isFinished);
+  // Accounts are marked synced as soon as their first chunk lands
+  const hasData = Boolean(syncProgress?.some((p) => p.account.lastSyncedAt));
+
   return (
     <div className="min-h-screen bg-background flex">
       {/* Left sidebar - Progress */}
@@ -90,7 +424,7 @@ export default function OnboardingPage() {
         <div className="flex-1 p-6">
           <h2 className="text-sm font-medium text-muted-foreground mb-6">GETTING STARTED</h2>
           <div className="space-y-4">
-            {steps.map((step, index) => (
+            {steps.map((step) => (
               <div key={step.id} className="flex items-start gap-3">
                 <div
                   className={cn(
@@ -150,29 +484,18 @@ export default function OnboardingPage() {
                 </p>
               </div>
 
+              {connectError && <ErrorBanner message={connectError} />}
+
               <Card>
                 <CardContent className="p-6">
-                  {!isConnected ? (
+                  {connections === null ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : connections.length === 0 ? (
                     <div className="text-center py-8">
                       <div className="w-20 h-20 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-6">
-                        <svg viewBox="0 0 24 24" className="w-10 h-10">
-                          <path
-                            fill="#4285F4"
-                            d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                          />
-                          <path
-                            fill="#34A853"
-                            d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                          />
-                          <path
-                            fill="#FBBC05"
-                            d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                          />
-                          <path
-                            fill="#EA4335"
-                            d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                          />
-                        </svg>
+                        <GoogleIcon className="w-10 h-10" />
                       </div>
                       <Button size="lg" onClick={handleConnectGoogle} disabled={isConnecting}>
                         {isConnecting ? (
@@ -189,21 +512,56 @@ export default function OnboardingPage() {
                       </p>
                     </div>
                   ) : (
-                    <div className="text-center py-8">
-                      <div className="w-16 h-16 rounded-full bg-green-500/10 flex items-center justify-center mx-auto mb-4">
-                        <CheckCircle2 className="w-8 h-8 text-green-500" />
+                    <div className="space-y-4">
+                      {connection && (
+                        <div className="text-center py-4">
+                          <div className="w-16 h-16 rounded-full bg-green-500/10 flex items-center justify-center mx-auto mb-4">
+                            <CheckCircle2 className="w-8 h-8 text-green-500" />
+                          </div>
+                          <h3 className="text-lg font-semibold mb-1">Connected Successfully!</h3>
+                          <p className="text-muted-foreground">
+                            {connection.email
+                              ? `Signed in to Google Ads as ${connection.email}`
+                              : 'Your Google Ads account is now linked'}
+                          </p>
+                        </div>
+                      )}
+
+                      {/* Several logins are connected; pick the one to add accounts from */}
+                      {connections.length > 1 && (
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">Choose the Google login to add accounts from</p>
+                          {connections.map((c) => (
+                            <button
+                              key={c.id}
+                              onClick={() => setConnectionId(c.id)}
+                              className={cn(
+                                'w-full flex items-center justify-between p-3 rounded-lg transition-colors',
+                                c.id === connectionId
+                                  ? 'bg-primary/10 border-2 border-primary'
+                                  : 'hover:bg-muted border-2 border-transparent'
+                              )}
+                            >
+                              <span className="font-medium">{c.email ?? 'Google Ads login'}</span>
+                              {c.id === connectionId && <CheckCircle2 className="w-5 h-5 text-primary" />}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="text-center">
+                        <Button variant="ghost" size="sm" onClick={handleConnectGoogle} disabled={isConnecting}>
+                          {isConnecting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          Connect a different Google account
+                        </Button>
                       </div>
-                      <h3 className="text-lg font-semibold mb-1">Connected Successfully!</h3>
-                      <p className="text-muted-foreground">
-                        Your Google Ads account is now linked
-                      </p>
                     </div>
                   )}
                 </CardContent>
               </Card>
 
               <div className="flex justify-end mt-6">
-                <Button onClick={nextStep} disabled={!isConnected}>
+                <Button onClick={nextStep} disabled={!connectionId}>
                   Continue
                   <ArrowRight className="w-4 h-4 ml-2" />
                 </Button>
@@ -224,106 +582,135 @@ export default function OnboardingPage() {
                 </p>
               </div>
 
+              {linkError && <ErrorBanner message={linkError} />}
+
               <Card>
                 <CardContent className="p-2">
-                  <div className="space-y-1">
-                    {mockAccounts.map((account) => (
-                      <button
-                        key={account.id}
-                        onClick={() => handleAccountToggle(account.id)}
-                        className={cn(
-                          'w-full flex items-center justify-between p-4 rounded-lg transition-colors',
-                          selectedAccounts.includes(account.id)
-                            ? 'bg-primary/10 border-2 border-primary'
-                            : 'hover:bg-muted border-2 border-transparent'
-                        )}
-                      >
-                        <div className="text-left">
-                          <p className="font-medium">{account.name}</p>
-                          <p className="text-sm text-muted-foreground">
-                            ID: {account.id} • {account.currency}
-                          </p>
-                        </div>
-                        <div
-                          className={cn(
-                            'w-6 h-6 rounded-full border-2 flex items-center justify-center',
-                            selectedAccounts.includes(account.id)
-                              ? 'border-primary bg-primary'
-                              : 'border-muted-foreground'
-                          )}
-                        >
-                          {selectedAccounts.includes(account.id) && (
-                            <CheckCircle2 className="w-4 h-4 text-white" />
-                          )}
-                        </div>
-                      </button>
-                    ))}
-                  </div>
+                  {customersError ? (
+                    <div className="p-6 text-center">
+                      <AlertCircle className="w-8 h-8 text-red-500 mx-auto mb-3" />
+                      <p className="text-sm text-muted-foreground">{customersError}</p>
+                    </div>
+                  ) : customers === null ? (
+                    <div className="flex flex-col items-center py-12 gap-3">
+                      <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                      <p className="text-sm text-muted-foreground">Finding your Google Ads accounts...</p>
+                    </div>
+                  ) : customers.length === 0 ? (
+                    <p className="p-6 text-center text-sm text-muted-foreground">
+                      This Google login has no enabled Google Ads accounts. Go back and connect a different one.
+                    </p>
+                  ) : (
+                    <div className="space-y-1">
+                      {renderAccounts(null, 0)}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
               <div className="flex justify-between mt-6">
-                <Button variant="outline" onClick={prevStep}>
+                <Button variant="outline" onClick={prevStep} disabled={isLinking}>
                   <ArrowLeft className="w-4 h-4 mr-2" />
                   Back
                 </Button>
-                <Button onClick={nextStep} disabled={selectedAccounts.length === 0}>
-                  Continue
-                  <ArrowRight className="w-4 h-4 ml-2" />
+                <Button onClick={handleLinkAccounts} disabled={selectedAccounts.length === 0 || isLinking}>
+                  {isLinking ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Linking...
+                    </>
+                  ) : (
+                    <>
+                      Link {selectedAccounts.length} Account{selectedAccounts.length !== 1 ? 's' : ''}
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </>
+                  )}
                 </Button>
               </div>
             </div>
           )}
 
-          {/* Step 3: Start Syncing */}
+          {/* Step 3: Initial Sync */}
           {currentStep === 3 && (
             <div className="animate-fade-in">
               <div className="text-center mb-8">
                 <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto mb-4">
                   <Rocket className="w-8 h-8 text-primary" />
                 </div>
-                <h1 className="text-2xl font-bold mb-2">Ready to Launch!</h1>
+                <h1 className="text-2xl font-bold mb-2">
+                  {syncFinished ? 'Your Data Is Ready!' : hasData ? 'Your First Data Is In!' : 'Syncing Your Data'}
+                </h1>
                 <p className="text-muted-foreground">
-                  Your setup is complete. Start syncing to see your data.
+                  {syncFinished
+                    ? 'The initial sync has finished.'
+                    : hasData
+                    ? 'The rest of your history keeps syncing in the background.'
+                    : 'We are fetching the last 90 days of data. This usually takes a few minutes.'}
                 </p>
               </div>
 
+              {syncError && <ErrorBanner message={syncError} />}
+
               <Card>
-                <CardContent className="p-6">
-                  <div className="space-y-4">
-                    <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
-                      <CheckCircle2 className="w-5 h-5 text-green-500" />
-                      <span>Google Ads connected</span>
-                    </div>
-                    <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
-                      <CheckCircle2 className="w-5 h-5 text-green-500" />
-                      <span>{selectedAccounts.length} account(s) selected</span>
-                    </div>
-                    <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
-                      <CheckCircle2 className="w-5 h-5 text-green-500" />
-                      <span>Initial sync will fetch last 90 days of data</span>
+                <CardContent className="p-6 space-y-6">
+                  <div>
+                    <div className="flex justify-between text-sm mb-2">
+                      <span className="text-muted-foreground">Overall progress</span>
+                      <span className="font-medium">{syncFinished ? 100 : syncPercent}%</span>
                     </div>
+                    <Progress value={syncFinished ? 100 : syncPercent} />
+                  </div>
+
+                  <div className="space-y-2">
+                    {syncProgress === null ? (
+                      <div className="flex justify-center py-4">
+                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : (
+                      syncProgress.map((progress) => {
+                        const { account } = progress;
+                        const failed =
+                          account.syncStatus === 'ERROR' || account.latestJob?.status === 'FAILED';
+                        const done = !failed && isFinished(progress);
+
+                        return (
+                          <div key={account.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+                            {failed ? (
+                              <XCircle className="w-5 h-5 text-red-500 shrink-0" />
+                            ) : done ? (
+                              <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+                            ) : account.latestJob?.status === 'RUNNING' ? (
+                              <Loader2 className="w-5 h-5 text-primary animate-spin shrink-0" />
+                            ) : (
+                              <Clock className="w-5 h-5 text-muted-foreground shrink-0" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium truncate">{account.name}</p>
+                              <p className="text-xs text-muted-foreground truncate">
+                                {failed
+                                  ? account.latestJob?.errorMessage ?? 'Sync failed'
+                                  : done
+                                  ? 'Synced'
+                                  : progress.chunksTotal > 0
+                                  ? `${progress.chunksDone} of ${progress.chunksTotal} date ranges synced`
+                                  : 'Queued'}
+                              </p>
+                            </div>
+                          </div>
+                        );
+                      })
+                    )}
                   </div>
                 </CardContent>
               </Card>
 
-              <div className="flex justify-between mt-6">
-                <Button variant="outline" onClick={prevStep}>
-                  <ArrowLeft className="w-4 h-4 mr-2" />
-                  Back
-                </Button>
-                <Button variant="gradient" onClick={handleStartSync} disabled={isSyncing}>
-                  {isSyncing ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Starting sync...
-                    </>
-                  ) : (
-                    <>
-                      <Rocket className="w-4 h-4 mr-2" />
-                      Go to Dashboard
-                    </>
-                  )}
+              <div className="flex justify-end mt-6">
+                <Button
+                  variant={hasData ? 'gradient' : 'outline'}
+                  onClick={() => router.push('/dashboard')}
+                >
+                  <Rocket className="w-4 h-4 mr-2" />
+                  {hasData ? 'Go to Dashboard' : 'Continue in Background'}
                 </Button>
               </div>
             </div>
@@ -333,4 +720,3 @@ export default function OnboardingPage() {
     </div>
   );
 }
-
@@ -0,0 +1,538 @@
+// Typed client for the API routes the dashboard pages call. Requests go
+// through the Next.js /api/v1 rewrite with the session cookie.
+
+/**
+ * A non-2xx response, carrying the API's error message
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Query string from a params object, skipping empty values
+function buildQuery(params: object): string {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params) as Array<[string, unknown]>) {
+    if (value !== undefined && value !== null && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+
+  const text = query.toString();
+  return text ? `?${text}` : '';
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`/api/v1${path}`, {
+    credentials: 'include',
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...init?.headers,
+    },
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ApiError(body?.error || `Request failed with status ${res.status}`, res.status);
+  }
+
+  return res.json();
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+export interface DateRangeParams {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+export interface SummaryMetrics {
+  impressions: number;
+  clicks: number;
+  spend: number;
+  conversions: number;
+  conversionValue: number;
+  cpc: number;
+  cpm: number;
+  ctr: number;
+  roas: number;
+}
+
+export interface MetricsSummary {
+  current: SummaryMetrics;
+  previous: SummaryMetrics | null;
+  // Percentage change from the comparison period
+  changes: Pick<SummaryMetrics, 'impressions' | 'clicks' | 'spend' | 'conversions' | 'conversionValue'> | null;
+}
+
+// Money columns are exact decimal strings
+export interface MetricsAggregate {
+  impressions: number;
+  clicks: number;
+  spend: string;
+  conversions: number;
+  conversionValue: string;
+  cpc: string;
+  cpm: string;
+  ctr: number;
+  roas: number;
+}
+
+export interface MetricsRow extends Partial<MetricsAggregate> {
+  date: string;
+  adAccountId?: string;
+  accountName?: string;
+  campaignId?: string;
+  adGroupId?: string;
+  adId?: string;
+}
+
+export interface MetricsQueryParams extends DateRangeParams {
+  granularity?: 'day' | 'week' | 'month';
+  weekStartsOn?: number;
+  groupBy?: 'account' | 'campaign' | 'adGroup' | 'ad';
+  provider?: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
+  accountIds?: string[];
+  campaignIds?: string[];
+  metrics?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface MetricsResponse {
+  data: MetricsRow[];
+  totals: MetricsAggregate | Record<string, never>;
+  meta: {
+    startDate: string;
+    endDate: string;
+    granularity?: string;
+    groupBy?: string;
+    rowCount?: number;
+  };
+  pagination?: {
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface TopCampaign extends SummaryMetrics {
+  id: string;
+  name: string;
+  status: string;
+}
+
+/**
+ * Totals for a period, optionally compared with an earlier one
+ */
+export function getMetricsSummary(
+  params: DateRangeParams & { compareStartDate?: string; compareEndDate?: string },
+  signal?: AbortSignal
+): Promise<MetricsSummary> {
+  return request(`/metrics/summary${buildQuery(params)}`, { signal });
+}
+
+/**
+ * Metrics bucketed by day, week or month
+ */
+export function getMetrics(params: MetricsQueryParams, signal?: AbortSignal): Promise<MetricsResponse> {
+  const { accountIds, campaignIds, metrics, ...rest } = params;
+
+  return request(
+    `/metrics${buildQuery({
+      ...rest,
+      accountIds: accountIds?.join(','),
+      campaignIds: campaignIds?.join(','),
+      metrics: metrics?.join(','),
+    })}`,
+    { signal }
+  );
+}
+
+/**
+ * Campaigns with the most of a metric in a period
+ */
+export async function getTopCampaigns(
+  params: DateRangeParams & { metric?: 'spend' | 'impressions' | 'clicks' | 'conversions'; limit?: number },
+  signal?: AbortSignal
+): Promise<TopCampaign[]> {
+  const { campaigns } = await request<{ campaigns: TopCampaign[] }>(
+    `/metrics/top-campaigns${buildQuery(params)}`,
+    { signal }
+  );
+  return campaigns;
+}
+
+// ============================================
+// CAMPAIGNS
+// ============================================
+
+export type EntityStatus = 'ENABLED' | 'PAUSED' | 'REMOVED' | 'UNKNOWN';
+
+export type EntitySortKey =
+  | 'name'
+  | 'impressions'
+  | 'clicks'
+  | 'spend'
+  | 'conversions'
+  | 'conversionValue'
+  | 'cpc'
+  | 'cpm'
+  | 'ctr'
+  | 'roas';
+
+export type CampaignSortKey = EntitySortKey | 'budget';
+
+export interface EntityPageParams<S extends string = EntitySortKey> extends DateRangeParams {
+  compareStartDate?: string;
+  compareEndDate?: string;
+  status?: EntityStatus[];
+  search?: string;
+  sortBy?: S;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface CampaignListParams extends EntityPageParams<CampaignSortKey> {
+  type?: string[];
+  provider?: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
+  accountIds?: string[];
+}
+
+export interface CursorPagination {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// Rows carry these when compare dates are given
+export interface SpendChange {
+  previousSpend?: string;
+  // Percentage change, null when there was no spend before
+  change?: number | null;
+}
+
+interface EntityRow extends MetricsAggregate, SpendChange {
+  id: string;
+  externalId: string;
+  status: EntityStatus;
+  adAccountId: string;
+  accountName: string;
+  provider: string;
+  currency: string;
+}
+
+export interface CampaignRow extends EntityRow {
+  name: string;
+  type: string | null;
+  budget: string | null;
+  budgetType: string | null;
+}
+
+export interface AdGroupRow extends EntityRow {
+  name: string;
+  campaignId: string;
+}
+
+export interface AdRow extends EntityRow {
+  name: string | null;
+  type: string | null;
+  headline: string | null;
+  description: string | null;
+  finalUrl: string | null;
+  adGroupId: string;
+  campaignId: string;
+}
+
+interface EntityPage {
+  totals: MetricsAggregate;
+  total: number;
+  pagination: CursorPagination;
+}
+
+export interface CampaignsResponse extends EntityPage {
+  campaigns: CampaignRow[];
+}
+
+export interface CampaignDetail extends MetricsAggregate {
+  id: string;
+  externalId: string;
+  name: string;
+  status: EntityStatus;
+  type: string | null;
+  budget: string | null;
+  budgetType: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  adAccountId: string;
+  accountName: string;
+  provider: string;
+  currency: string;
+  adGroupCount: number;
+}
+
+function pageQuery<T extends { status?: EntityStatus[] }>(params: T): string {
+  const { status, ...rest } = params;
+  return buildQuery({ ...rest, status: status?.join(',') });
+}
+
+/**
+ * Campaigns with metrics for a period, filtered, sorted and paged by cursor
+ */
+export function getCampaigns(params: CampaignListParams, signal?: AbortSignal): Promise<CampaignsResponse> {
+  const { type, accountIds, ...rest } = params;
+
+  return request(
+    `/campaigns${pageQuery({
+      ...rest,
+      type: type?.join(','),
+      accountIds: accountIds?.join(','),
+    })}`,
+    { signal }
+  );
+}
+
+/**
+ * A campaign with its totals for a period
+ */
+export async function getCampaign(
+  id: string,
+  params: DateRangeParams,
+  signal?: AbortSignal
+): Promise<CampaignDetail> {
+  const { campaign } = await request<{ campaign: CampaignDetail }>(
+    `/campaigns/${encodeURIComponent(id)}${buildQuery(params)}`,
+    { signal }
+  );
+  return campaign;
+}
+
+/**
+ * A campaign's ad groups with metrics for a period
+ */
+export function getCampaignAdGroups(
+  id: string,
+  params: EntityPageParams,
+  signal?: AbortSignal
+): Promise<EntityPage & { adGroups: AdGroupRow[] }> {
+  return request(`/campaigns/${encodeURIComponent(id)}/ad-groups${pageQuery(params)}`, { signal });
+}
+
+/**
+ * A campaign's ads with metrics for a period, optionally for one ad group
+ */
+export function getCampaignAds(
+  id: string,
+  params: EntityPageParams & { adGroupId?: string },
+  signal?: AbortSignal
+): Promise<EntityPage & { ads: AdRow[] }> {
+  return request(`/campaigns/${encodeURIComponent(id)}/ads${pageQuery(params)}`, { signal });
+}
+
+// ============================================
+// CONNECTIONS & ACCOUNTS
+// ============================================
+
+export interface ConnectionStatus {
+  id: string;
+  status: 'ACTIVE' | 'EXPIRED' | 'ERROR' | 'DISCONNECTED';
+  email: string | null;
+  lastRefreshed: string | null;
+  error: string | null;
+  connectedAt: string;
+}
+
+export interface GoogleAdsCustomer {
+  customerId: string;
+  descriptiveName: string;
+  currencyCode: string;
+  timeZone: string;
+  isManager: boolean;
+  parentCustomerId: string | null;
+  loginCustomerId: string | null;
+  isLinked: boolean;
+  linkedConnectionId: string | null;
+}
+
+export interface LinkAccountInput {
+  externalId: string;
+  name: string;
+  currency?: string;
+  timezone?: string;
+  parentExternalId?: string | null;
+  isManager?: boolean;
+  loginCustomerId?: string | null;
+}
+
+export type AccountSyncStatus = 'PENDING' | 'SYNCING' | 'SYNCED' | 'ERROR';
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface AccountSyncState {
+  id: string;
+  name: string;
+  externalId: string;
+  syncStatus: AccountSyncStatus;
+  lastSyncedAt: string | null;
+  latestJob: {
+    id: string;
+    status: JobStatus;
+    jobType: string;
+    errorMessage: string | null;
+  } | null;
+}
+
+export interface SyncJobSummary {
+  id: string;
+  accountId: string;
+  status: JobStatus;
+  jobType: string;
+  errorMessage: string | null;
+}
+
+/**
+ * Google sign-in URL. The callback returns to `returnTo` with ?success= and
+ * ?connectionId=, or ?error=.
+ */
+export async function getGoogleAuthUrl(
+  params: { connectionId?: string; returnTo?: 'connections' | 'onboarding' } = {}
+): Promise<string> {
+  const { authUrl } = await request<{ authUrl: string }>(`/oauth/google/authorize${buildQuery(params)}`);
+  return authUrl;
+}
+
+/**
+ * The organization's Google Ads connections
+ */
+export function getGoogleStatus(signal?: AbortSignal): Promise<{ connected: boolean; connections: ConnectionStatus[] }> {
+  return request('/oauth/google/status', { signal });
+}
+
+/**
+ * Customers reachable through a Google Ads connection, managers included
+ */
+export function getGoogleCustomers(
+  connectionId: string,
+  signal?: AbortSignal
+): Promise<{ connectionId: string; customers: GoogleAdsCustomer[] }> {
+  return request(`/oauth/google/customers${buildQuery({ connectionId })}`, { signal });
+}
+
+/**
+ * Link accounts from a connection. New accounts start their initial sync.
+ */
+export function linkAccounts(body: {
+  provider?: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
+  connectionId?: string;
+  accounts: LinkAccountInput[];
+}): Promise<{ accounts: Array<{ id: string; externalId: string; isManager: boolean }>; message: string }> {
+  return request('/accounts/link', { method: 'POST', body: JSON.stringify(body) });
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Sync state of each enabled account, with its latest job
+ */
+export async function getSyncStatus(signal?: AbortSignal): Promise<AccountSyncState[]> {
+  const { accounts } = await request<{ accounts: AccountSyncState[] }>('/sync/status', { signal });
+  return accounts;
+}
+
+/**
+ * Sync jobs, newest first. `parentId` lists a backfill's chunks.
+ */
+export async function getSyncJobs(
+  params: { accountId?: string; parentId?: string; status?: JobStatus; limit?: number } = {},
+  signal?: AbortSignal
+): Promise<SyncJobSummary[]> {
+  const { jobs } = await request<{ jobs: SyncJobSummary[] }>(`/sync/jobs${buildQuery(params)}`, { signal });
+  return jobs;
+}
+
+// ============================================
+// TEAM
+// ============================================
+
+export type Role = 'ADMIN' | 'VIEWER';
+
+export interface CurrentUser {
+  user: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    avatarUrl: string | null;
+  };
+  // Organization requests act in by default
+  organizationId: string | null;
+  organizations: Array<{ id: string; name: string; slug: string; role: Role }>;
+}
+
+export interface Member {
+  id: string; // Membership ID
+  role: Role;
+  joinedAt: string;
+  user: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    avatarUrl?: string | null;
+  };
+}
+
+export function getCurrentUser(signal?: AbortSignal): Promise<CurrentUser> {
+  return request('/auth/me', { signal });
+}
+
+export async function getMembers(organizationId: string, signal?: AbortSignal): Promise<Member[]> {
+  const { members } = await request<{ members: Member[] }>(
+    `/organizations/${encodeURIComponent(organizationId)}/members`,
+    { signal }
+  );
+  return members;
+}
+
+/**
+ * Add an existing user to the organization by email (admin)
+ */
+export async function addMember(organizationId: string, body: { email: string; role: Role }): Promise<Member> {
+  const { member } = await request<{ member: Member }>(
+    `/organizations/${encodeURIComponent(organizationId)}/members`,
+    { method: 'POST', body: JSON.stringify(body) }
+  );
+  return member;
+}
+
+/**
+ * Change a member's role (admin). The last admin cannot be demoted.
+ */
+export async function updateMemberRole(organizationId: string, memberId: string, role: Role): Promise<void> {
+  await request(
+    `/organizations/${encodeURIComponent(organizationId)}/members/${encodeURIComponent(memberId)}`,
+    { method: 'PATCH', body: JSON.stringify({ role }) }
+  );
+}
+
+/**
+ * Remove a member (admin). The last admin cannot be removed.
+ */
+export async function removeMember(organizationId: string, memberId: string): Promise<void> {
+  await request(
+    `/organizations/${encodeURIComponent(organizationId)}/members/${encodeURIComponent(memberId)}`,
+    { method: 'DELETE' }
+  );
+}
@@ -0,0 +1,107 @@
+import type { Connection, ConnectionHealthCheck } from '@prisma/client';
+import prisma from './prisma';
+import { decrypt } from './encryption';
+import { getConnector } from './connectors';
+import { classifySyncError } from './sync-errors';
+import { markConnectionUnhealthy, refreshConnectionToken } from './tokens';
+
+// Failed checks in a row before a connection is marked ERROR. Revoked
+// credentials expire the connection on the first failure instead.
+const ERROR_THRESHOLD = 3;
+
+// Health history older than this is pruned
+const HEALTH_HISTORY_DAYS = 30;
+
+// Tokens expiring within this window are refreshed by the health check. Meta
+// can only re-exchange a token that has not expired yet, so this leaves
+// several checks (and an admin notification) before it does.
+const REFRESH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a connection, refreshing its access token when it is close to
+ * expiry and otherwise checking the current token with the provider. Both
+ * calls fail once access is revoked, so broken connections are found before
+ * a sync runs into them.
+ */
+export async function checkConnectionHealth(connection: Connection): Promise<ConnectionHealthCheck> {
+  const connector = getConnector(connection.provider);
+  const startTime = Date.now();
+
+  try {
+    const expiresSoon =
+      !connection.accessTokenExpiry ||
+      connection.accessTokenExpiry.getTime() < Date.now() + REFRESH_WINDOW_MS;
+
+    if (expiresSoon) {
+      await refreshConnectionToken(connection, connector.refreshAccessToken);
+    } else {
+      await connector.validateAccessToken(decrypt(connection.accessTokenEnc));
+    }
+
+    await prisma.connection.update({
+      where: { id: connection.id },
+      data: {
+        lastCheckedAt: new Date(),
+        consecutiveFailures: 0,
+        status: 'ACTIVE',
+        errorMessage: null,
+      },
+    });
+
+    return prisma.connectionHealthCheck.create({
+      data: {
+        connectionId: connection.id,
+        healthy: true,
+        status: 'ACTIVE',
+        latencyMs: Date.now() - startTime,
+      },
+    });
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const failureKind = classifySyncError(error);
+
+    const { consecutiveFailures } = await prisma.connection.update({
+      where: { id: connection.id },
+      data: {
+        lastCheckedAt: new Date(),
+        consecutiveFailures: { increment: 1 },
+      },
+    });
+
+    if (failureKind === 'AUTH_EXPIRED' || failureKind === 'PERMISSION_DENIED') {
+      await markConnectionUnhealthy(connection.id, 'EXPIRED', errorMessage);
+    } else if (consecutiveFailures >= ERROR_THRESHOLD) {
+      await markConnectionUnhealthy(connection.id, 'ERROR', errorMessage);
+    }
+
+    const { status } = await prisma.connection.findUniqueOrThrow({
+      where: { id: connection.id },
+      select: { status: true },
+    });
+
+    return prisma.connectionHealthCheck.create({
+      data: {
+        connectionId: connection.id,
+        healthy: false,
+        status,
+        failureKind,
+        errorMessage,
+        latencyMs,
+      },
+    });
+  }
+}
+
+/**
+ * Delete health checks past the retention window
+ */
+export async function pruneHealthHistory(): Promise<number> {
+  const cutoff = new Date(Date.now() - HEALTH_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.connectionHealthCheck.deleteMany({
+    where: { checkedAt: { lt: cutoff } },
+  });
+
+  return count;
+}
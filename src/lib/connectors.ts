@@ -0,0 +1,208 @@
+import * as googleAds from './google-ads';
+import * as metaAds from './meta-ads';
+import * as tiktokAds from './tiktok-ads';
+
+export type Provider = 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
+
+export type EntityStatus = 'ENABLED' | 'PAUSED' | 'REMOVED' | 'UNKNOWN';
+
+export type InsightsLevel = 'campaign' | 'adGroup' | 'ad';
+
+/**
+ * An ad account reachable through a connection
+ */
+export interface ProviderAccount {
+  externalId: string;
+  name: string;
+  currency: string;
+  timezone: string;
+  // Manager hierarchy, for providers that have one
+  parentExternalId?: string | null;
+  isManager?: boolean;
+  loginCustomerId?: string | null;
+}
+
+export interface CampaignDimension {
+  externalId: string;
+  name: string;
+  status: EntityStatus;
+  type: string | null;
+  budget: number | null;
+  budgetType: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface AdGroupDimension {
+  externalId: string;
+  campaignExternalId: string;
+  name: string;
+  status: EntityStatus;
+}
+
+export interface AdDimension {
+  externalId: string;
+  campaignExternalId: string;
+  adGroupExternalId: string;
+  name: string | null;
+  type: string | null;
+  status: EntityStatus;
+  headline?: string | null;
+  description?: string | null;
+  finalUrl: string | null;
+}
+
+/**
+ * One day of performance for a campaign, ad group or ad, in account currency
+ */
+export interface InsightsRow {
+  date: string;
+  accountId: string;
+  campaignId: string;
+  campaignName: string;
+  adGroupId?: string;
+  adGroupName?: string;
+  adId?: string;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  conversionValue: number;
+}
+
+/**
+ * Provider-agnostic interface used by the OAuth routes and sync workers
+ */
+export interface ProviderConnector {
+  provider: Provider;
+  scopes: string[];
+  generateAuthUrl(state: string): string;
+  exchangeCodeForTokens(code: string): Promise<{
+    accessToken: string;
+    refreshToken: string;
+    expiryDate: number;
+    email?: string;
+    providerAccountId?: string;
+  }>;
+  // Providers without a separate refresh token return the rotated token as
+  // refreshToken, replacing the stored refresh credential
+  refreshAccessToken(refreshToken: string): Promise<{
+    accessToken: string;
+    expiryDate: number;
+    refreshToken?: string;
+  }>;
+  // Cheap check that an unexpired access token has not been revoked
+  validateAccessToken(accessToken: string): Promise<void>;
+  listAccounts(connectionId: string): Promise<ProviderAccount[]>;
+  // Budgets are returned in the account currency
+  fetchCampaigns(connectionId: string, accountId: string, currency: string): Promise<CampaignDimension[]>;
+  fetchAdGroups(connectionId: string, accountId: string): Promise<AdGroupDimension[]>;
+  fetchAds(connectionId: string, accountId: string): Promise<AdDimension[]>;
+  // Yields rows in batches as the provider returns them (a single batch for
+  // providers whose pages are collected up front)
+  streamDailyInsights(
+    connectionId: string,
+    accountId: string,
+    level: InsightsLevel,
+    startDate: string,
+    endDate: string
+  ): AsyncIterable<InsightsRow[]>;
+}
+
+const googleAdsConnector: ProviderConnector = {
+  provider: 'GOOGLE_ADS',
+  scopes: googleAds.GOOGLE_ADS_SCOPES,
+  generateAuthUrl: googleAds.generateAuthUrl,
+  exchangeCodeForTokens: googleAds.exchangeCodeForTokens,
+  refreshAccessToken: googleAds.refreshAccessToken,
+  validateAccessToken: googleAds.validateAccessToken,
+  async listAccounts(connectionId) {
+    const customers = await googleAds.listAccessibleCustomers(connectionId);
+    return customers.map((c) => ({
+      externalId: c.customerId,
+      name: c.descriptiveName,
+      currency: c.currencyCode,
+      timezone: c.timeZone,
+      parentExternalId: c.parentCustomerId,
+      isManager: c.isManager,
+      loginCustomerId: c.loginCustomerId,
+    }));
+  },
+  fetchCampaigns: googleAds.fetchCampaigns,
+  fetchAdGroups: googleAds.fetchAdGroups,
+  fetchAds: googleAds.fetchAds,
+  async *streamDailyInsights(connectionId, accountId, level, startDate, endDate) {
+    const streams = {
+      campaign: googleAds.streamCampaignPerformance,
+      adGroup: googleAds.streamAdGroupPerformance,
+      ad: googleAds.streamAdPerformance,
+    };
+
+    for await (const rows of streams[level](connectionId, accountId, startDate, endDate)) {
+      yield rows.map(({ customerId, ...row }) => ({ ...row, accountId: customerId }));
+    }
+  },
+};
+
+const metaAdsConnector: ProviderConnector = {
+  provider: 'META_ADS',
+  scopes: metaAds.META_ADS_SCOPES,
+  generateAuthUrl: metaAds.generateAuthUrl,
+  exchangeCodeForTokens: metaAds.exchangeCodeForTokens,
+  refreshAccessToken: metaAds.refreshAccessToken,
+  validateAccessToken: metaAds.validateAccessToken,
+  listAccounts: metaAds.listAdAccounts,
+  fetchCampaigns: metaAds.fetchCampaigns,
+  fetchAdGroups: metaAds.fetchAdSets,
+  fetchAds: metaAds.fetchAds,
+  async *streamDailyInsights(connectionId, accountId, level, startDate, endDate) {
+    yield await metaAds.fetchInsights(
+      connectionId,
+      accountId,
+      level === 'adGroup' ? 'adset' : level,
+      startDate,
+      endDate
+    );
+  },
+};
+
+const tiktokAdsConnector: ProviderConnector = {
+  provider: 'TIKTOK_ADS',
+  scopes: tiktokAds.TIKTOK_ADS_SCOPES,
+  generateAuthUrl: tiktokAds.generateAuthUrl,
+  exchangeCodeForTokens: tiktokAds.exchangeCodeForTokens,
+  refreshAccessToken: tiktokAds.refreshAccessToken,
+  validateAccessToken: tiktokAds.validateAccessToken,
+  listAccounts: tiktokAds.listAdvertisers,
+  fetchCampaigns: tiktokAds.fetchCampaigns,
+  fetchAdGroups: tiktokAds.fetchAdGroups,
+  fetchAds: tiktokAds.fetchAds,
+  async *streamDailyInsights(connectionId, accountId, level, startDate, endDate) {
+    yield await tiktokAds.fetchReport(
+      connectionId,
+      accountId,
+      level === 'adGroup' ? 'adgroup' : level,
+      startDate,
+      endDate
+    );
+  },
+};
+
+const connectors: Record<Provider, ProviderConnector> = {
+  GOOGLE_ADS: googleAdsConnector,
+  META_ADS: metaAdsConnector,
+  TIKTOK_ADS: tiktokAdsConnector,
+};
+
+/**
+ * Get the connector for a provider
+ */
+export function getConnector(provider: Provider): ProviderConnector {
+  const connector = connectors[provider];
+
+  if (!connector) {
+    throw new Error(`No connector available for provider ${provider}`);
+  }
+
+  return connector;
+}
@@ -0,0 +1,66 @@
+/**
+ * Calendar dates (YYYY-MM-DD) as seen in an IANA timezone.
+ *
+ * Ad platforms report by day in the account's own timezone, so sync windows
+ * must be computed there rather than in server UTC.
+ */
+
+/**
+ * Get the calendar date in a timezone at a given instant
+ */
+export function getLocalDate(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(at);
+
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/**
+ * Add (or subtract) whole days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * The window a daily sync covers in a timezone: today plus the preceding
+ * lookbackDays days (just yesterday by default)
+ */
+export function getDailySyncWindow(
+  timeZone: string,
+  lookbackDays: number = 1,
+  at: Date = new Date()
+): { from: string; to: string } {
+  const today = getLocalDate(timeZone, at);
+  return { from: addDays(today, -lookbackDays), to: today };
+}
+
+/**
+ * Split a date range into consecutive chunks of at most maxDaysPerChunk days
+ */
+export function splitDateRange(
+  startDate: string,
+  endDate: string,
+  maxDaysPerChunk: number = 30
+): Array<{ from: string; to: string }> {
+  const chunks: Array<{ from: string; to: string }> = [];
+
+  let chunkStart = startDate;
+
+  while (chunkStart <= endDate) {
+    const chunkEnd = addDays(chunkStart, maxDaysPerChunk - 1);
+    const to = chunkEnd < endDate ? chunkEnd : endDate;
+
+    chunks.push({ from: chunkStart, to });
+    chunkStart = addDays(to, 1);
+  }
+
+  return chunks;
+}
@@ -18,6 +18,17 @@ export const env = {
   // Google Ads
   GOOGLE_ADS_DEVELOPER_TOKEN: process.env.GOOGLE_ADS_DEVELOPER_TOKEN || '',
   
+  // Meta OAuth
+  META_APP_ID: process.env.META_APP_ID || '',
+  META_APP_SECRET: process.env.META_APP_SECRET || '',
+  META_REDIRECT_URI: process.env.META_REDIRECT_URI || 'http://localhost:4000/api/oauth/meta/callback',
+  
+  // TikTok OAuth
+  TIKTOK_APP_ID: process.env.TIKTOK_APP_ID || '',
+  TIKTOK_APP_SECRET: process.env.TIKTOK_APP_SECRET || '',
+  TIKTOK_REDIRECT_URI: process.env.TIKTOK_REDIRECT_URI || 'http://localhost:4000/api/oauth/tiktok/callback',
+  TIKTOK_API_BASE_URL: process.env.TIKTOK_API_BASE_URL || 'https://business-api.tiktok.com/open_api/v1.3',
+  
   // URLs
   API_URL: process.env.API_URL || 'http://localhost:4000',
   FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
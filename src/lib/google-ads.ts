@@ -1,10 +1,18 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
-import { decrypt, encrypt } from './encryption';
 import prisma from './prisma';
 import { googleAdsRateLimiter } from './redis';
-
-const GOOGLE_ADS_SCOPES = ['https://www.googleapis.com/auth/adwords'];
+import { getValidConnectionToken, markConnectionExpired } from './tokens';
+import { SyncError } from './sync-errors';
+import type { SyncFailureKind } from '@prisma/client';
+import type {
+  CampaignDimension,
+  AdGroupDimension,
+  AdDimension,
+  EntityStatus,
+} from './connectors';
+
+export const GOOGLE_ADS_SCOPES = ['https://www.googleapis.com/auth/adwords'];
 
 // Create OAuth2 client
 function createOAuth2Client(): OAuth2Client {
@@ -36,6 +44,7 @@ export async function exchangeCodeForTokens(code: string): Promise<{
   refreshToken: string;
   expiryDate: number;
   email?: string;
+  providerAccountId?: string;
 }> {
   const oauth2Client = createOAuth2Client();
   const { tokens } = await oauth2Client.getToken(code);
@@ -54,6 +63,7 @@ export async function exchangeCodeForTokens(code: string): Promise<{
     refreshToken: tokens.refresh_token,
     expiryDate: tokens.expiry_date || Date.now() + 3600000,
     email: data.email || undefined,
+    providerAccountId: data.id || undefined,
   };
 }
 
@@ -79,58 +89,18 @@ export async function refreshAccessToken(refreshToken: string): Promise<{
   };
 }
 
+/**
+ * Check that an access token is still valid
+ */
+export async function validateAccessToken(accessToken: string): Promise<void> {
+  await createOAuth2Client().getTokenInfo(accessToken);
+}
+
 /**
  * Get valid access token for a connection, refreshing if necessary
  */
 export async function getValidAccessToken(connectionId: string): Promise<string> {
-  const connection = await prisma.connection.findUnique({
-    where: { id: connectionId },
-  });
-
-  if (!connection) {
-    throw new Error('Connection not found');
-  }
-
-  const accessToken = decrypt(connection.accessTokenEnc);
-  const refreshToken = decrypt(connection.refreshTokenEnc);
-
-  // Check if token needs refresh (5 min buffer)
-  const expiryBuffer = 5 * 60 * 1000;
-  const isExpired =
-    !connection.accessTokenExpiry ||
-    connection.accessTokenExpiry.getTime() < Date.now() + expiryBuffer;
-
-  if (isExpired) {
-    try {
-      const { accessToken: newAccessToken, expiryDate } = await refreshAccessToken(refreshToken);
-
-      // Update connection with new access token
-      await prisma.connection.update({
-        where: { id: connectionId },
-        data: {
-          accessTokenEnc: encrypt(newAccessToken),
-          accessTokenExpiry: new Date(expiryDate),
-          lastRefreshedAt: new Date(),
-          status: 'ACTIVE',
-          errorMessage: null,
-        },
-      });
-
-      return newAccessToken;
-    } catch (error) {
-      // Mark connection as expired
-      await prisma.connection.update({
-        where: { id: connectionId },
-        data: {
-          status: 'EXPIRED',
-          errorMessage: error instanceof Error ? error.message : 'Token refresh failed',
-        },
-      });
-      throw error;
-    }
-  }
-
-  return accessToken;
+  return getValidConnectionToken(connectionId, refreshAccessToken);
 }
 
 /**
@@ -151,19 +121,232 @@ export interface GoogleAdsMetrics {
   conversionValue: number;
 }
 
+export type GoogleAdsErrorType =
+  | 'QUOTA_ERROR'
+  | 'AUTHENTICATION_ERROR'
+  | 'AUTHORIZATION_ERROR'
+  | 'CUSTOMER_NOT_ENABLED'
+  | 'QUERY_ERROR'
+  | 'INTERNAL_ERROR';
+
+// How each error type is treated by the sync retry policy
+const FAILURE_KINDS: Record<GoogleAdsErrorType, SyncFailureKind> = {
+  QUOTA_ERROR: 'QUOTA',
+  AUTHENTICATION_ERROR: 'AUTH_EXPIRED',
+  AUTHORIZATION_ERROR: 'PERMISSION_DENIED',
+  CUSTOMER_NOT_ENABLED: 'ACCOUNT_DISABLED',
+  QUERY_ERROR: 'BAD_QUERY',
+  INTERNAL_ERROR: 'TRANSIENT',
+};
+
+// GoogleAdsError.errorCode keys that mean the request itself was malformed
+const QUERY_ERROR_CODES = [
+  'queryError',
+  'requestError',
+  'fieldError',
+  'fieldMaskError',
+  'dateError',
+  'dateRangeError',
+];
+
+/**
+ * A failed Google Ads API request, typed from its GoogleAdsFailure
+ */
+export class GoogleAdsApiError extends SyncError {
+  constructor(
+    public readonly type: GoogleAdsErrorType,
+    message: string,
+    retryAfterMs?: number,
+    public readonly requestId?: string
+  ) {
+    super(message, FAILURE_KINDS[type], retryAfterMs);
+    this.name = 'GoogleAdsApiError';
+  }
+}
+
+interface GoogleAdsFailure {
+  '@type'?: string;
+  errors?: Array<{
+    errorCode?: Record<string, string>;
+    message?: string;
+    details?: { quotaErrorDetails?: { retryDelay?: string } };
+  }>;
+  requestId?: string;
+}
+
+function getErrorType(httpStatus: number, errorCode?: Record<string, string>): GoogleAdsErrorType {
+  if (errorCode) {
+    if (errorCode.quotaError) return 'QUOTA_ERROR';
+    if (errorCode.authenticationError) return 'AUTHENTICATION_ERROR';
+    if (errorCode.authorizationError === 'CUSTOMER_NOT_ENABLED') return 'CUSTOMER_NOT_ENABLED';
+    if (errorCode.authorizationError) return 'AUTHORIZATION_ERROR';
+    if (errorCode.internalError) return 'INTERNAL_ERROR';
+    if (QUERY_ERROR_CODES.some((code) => code in errorCode)) return 'QUERY_ERROR';
+  }
+
+  switch (httpStatus) {
+    case 401:
+      return 'AUTHENTICATION_ERROR';
+    case 403:
+      return 'AUTHORIZATION_ERROR';
+    case 429:
+      return 'QUOTA_ERROR';
+    case 400:
+      return 'QUERY_ERROR';
+    default:
+      return 'INTERNAL_ERROR';
+  }
+}
+
+// Parse a protobuf Duration ("30s", "1.5s") or Retry-After header (seconds)
+function parseRetryDelay(value: string | null | undefined): number | undefined {
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds * 1000) : undefined;
+}
+
+interface GoogleRpcStatus {
+  code?: number;
+  message?: string;
+  details?: GoogleAdsFailure[];
+}
+
+function toGoogleAdsError(
+  httpStatus: number,
+  status: GoogleRpcStatus | undefined,
+  fallbackMessage: string,
+  retryAfterHeader?: string | null
+): GoogleAdsApiError {
+  const failure = status?.details?.find((d) => d['@type']?.endsWith('GoogleAdsFailure'));
+  const firstError = failure?.errors?.[0];
+  const type = getErrorType(httpStatus, firstError?.errorCode);
+
+  const retryAfterMs =
+    parseRetryDelay(firstError?.details?.quotaErrorDetails?.retryDelay) ??
+    parseRetryDelay(retryAfterHeader);
+
+  const message = firstError?.message || status?.message || fallbackMessage;
+
+  return new GoogleAdsApiError(type, `Google Ads API error (${type}): ${message}`, retryAfterMs, failure?.requestId);
+}
+
+/**
+ * Build a typed error from a non-OK Google Ads API response
+ */
+export async function parseGoogleAdsError(response: Response): Promise<GoogleAdsApiError> {
+  const body = await response.text();
+
+  let status: GoogleRpcStatus | undefined;
+  try {
+    const parsed = JSON.parse(body);
+    // searchStream wraps the error in an array
+    status = (Array.isArray(parsed) ? parsed[0] : parsed)?.error;
+  } catch {
+    // Not JSON (e.g. an HTML error page from a proxy)
+  }
+
+  return toGoogleAdsError(
+    response.status,
+    status,
+    body || response.statusText,
+    response.headers.get('retry-after')
+  );
+}
+
+/**
+ * Throw a typed error, marking the connection expired when Google rejected
+ * its credentials
+ */
+async function rejectWith(connectionId: string, error: GoogleAdsApiError): Promise<never> {
+  if (error.type === 'AUTHENTICATION_ERROR') {
+    await markConnectionExpired(connectionId, error.message);
+  }
+
+  throw error;
+}
+
+/**
+ * Parse the elements of a JSON array as they arrive, so a large response is
+ * never held in memory whole. Elements must be objects.
+ */
+async function* parseJsonArrayStream(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let scanned = 0; // buffer offset already scanned
+  let start = -1; // buffer offset of the element being read
+  let depth = 0; // nesting depth, where 1 is inside the top-level array
+  let inString = false;
+  let escaped = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    for (let i = scanned; i < buffer.length; i++) {
+      const char = buffer[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+        if (depth === 2) start = i;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 1 && start >= 0) {
+          yield JSON.parse(buffer.slice(start, i + 1));
+          start = -1;
+        }
+      }
+    }
+
+    // Keep only the unfinished element
+    if (start >= 0) {
+      buffer = buffer.slice(start);
+      start = 0;
+    } else {
+      buffer = '';
+    }
+    scanned = buffer.length;
+  }
+}
+
+/**
+ * The manager account a linked customer is reached through, if any
+ */
+async function findLoginCustomerId(connectionId: string, customerId: string): Promise<string | null> {
+  const account = await prisma.adAccount.findFirst({
+    where: { connectionId, provider: 'GOOGLE_ADS', externalId: customerId },
+    select: { loginCustomerId: true },
+  });
+
+  return account?.loginCustomerId ?? null;
+}
+
 /**
- * Make a Google Ads API request using GAQL
+ * Run a GAQL query with searchStream, yielding each batch of result rows as
+ * it arrives. The login customer ID is looked up from the linked account
+ * unless given.
  * Note: This is a simplified implementation. In production, use the google-ads-api package.
  */
-export async function queryGoogleAds(
+export async function* streamGoogleAds(
   connectionId: string,
   customerId: string,
-  query: string
-): Promise<any[]> {
+  query: string,
+  loginCustomerId?: string | null
+): AsyncGenerator<any[]> {
   // Rate limit check
   const canProceed = await googleAdsRateLimiter.waitForToken(1, 30000);
   if (!canProceed) {
-    throw new Error('Rate limit exceeded. Please try again later.');
+    throw new SyncError('Rate limit exceeded. Please try again later.', 'QUOTA');
   }
 
   const accessToken = await getValidAccessToken(connectionId);
@@ -173,6 +356,11 @@ export async function queryGoogleAds(
     throw new Error('GOOGLE_ADS_DEVELOPER_TOKEN is required');
   }
 
+  // Client accounts reached through a manager must name it on every request
+  const loginId = loginCustomerId === undefined
+    ? await findLoginCustomerId(connectionId, customerId)
+    : loginCustomerId;
+
   // Make request to Google Ads API
   const response = await fetch(
     `https://googleads.googleapis.com/v14/customers/${customerId}/googleAds:searchStream`,
@@ -182,31 +370,90 @@ export async function queryGoogleAds(
         Authorization: `Bearer ${accessToken}`,
         'developer-token': developerToken,
         'Content-Type': 'application/json',
+        ...(loginId && { 'login-customer-id': loginId.replace(/-/g, '') }),
       },
       body: JSON.stringify({ query }),
     }
   );
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Google Ads API error: ${error}`);
+    await rejectWith(connectionId, await parseGoogleAdsError(response));
   }
 
-  const data = await response.json();
-  return data.results || [];
+  if (!response.body) {
+    return;
+  }
+
+  // The body is an array of batches; a failure part-way through arrives as a
+  // final element carrying an error instead of results
+  for await (const batch of parseJsonArrayStream(response.body)) {
+    if (batch.error) {
+      await rejectWith(
+        connectionId,
+        toGoogleAdsError(batch.error.code ?? 500, batch.error, 'searchStream failed')
+      );
+    }
+
+    if (batch.results?.length) {
+      yield batch.results;
+    }
+  }
 }
 
 /**
- * Get list of accessible customer IDs
+ * Run a GAQL query and collect every result row
  */
-export async function listAccessibleCustomers(connectionId: string): Promise<
-  Array<{
-    customerId: string;
-    descriptiveName: string;
-    currencyCode: string;
-    timeZone: string;
-  }>
-> {
+export async function queryGoogleAds(
+  connectionId: string,
+  customerId: string,
+  query: string,
+  loginCustomerId?: string | null
+): Promise<any[]> {
+  const results: any[] = [];
+
+  for await (const batch of streamGoogleAds(connectionId, customerId, query, loginCustomerId)) {
+    results.push(...batch);
+  }
+
+  return results;
+}
+
+/**
+ * A customer reachable through a connection, directly or through a manager
+ */
+export interface GoogleAdsCustomer {
+  customerId: string;
+  descriptiveName: string;
+  currencyCode: string;
+  timeZone: string;
+  isManager: boolean;
+  parentCustomerId: string | null;
+  // Manager to send as login-customer-id; null when directly accessible
+  loginCustomerId: string | null;
+}
+
+// Manager nesting deeper than this is not followed
+const MAX_HIERARCHY_DEPTH = 10;
+
+// A customer's own details (level 0) and its direct clients (level 1)
+const CUSTOMER_CLIENT_QUERY = `
+  SELECT
+    customer_client.id,
+    customer_client.descriptive_name,
+    customer_client.currency_code,
+    customer_client.time_zone,
+    customer_client.manager,
+    customer_client.level
+  FROM customer_client
+  WHERE customer_client.level <= 1
+    AND customer_client.status = 'ENABLED'
+`;
+
+/**
+ * List every customer the connection can reach, walking down from each
+ * directly accessible customer through the manager (MCC) hierarchy
+ */
+export async function listAccessibleCustomers(connectionId: string): Promise<GoogleAdsCustomer[]> {
   const accessToken = await getValidAccessToken(connectionId);
   const developerToken = process.env.GOOGLE_ADS_DEVELOPER_TOKEN;
 
@@ -214,7 +461,7 @@ export async function listAccessibleCustomers(connectionId: string): Promise<
     throw new Error('GOOGLE_ADS_DEVELOPER_TOKEN is required');
   }
 
-  // First, get list of customer IDs
+  // First, get list of directly accessible customer IDs
   const listResponse = await fetch(
     'https://googleads.googleapis.com/v14/customers:listAccessibleCustomers',
     {
@@ -227,78 +474,68 @@ export async function listAccessibleCustomers(connectionId: string): Promise<
   );
 
   if (!listResponse.ok) {
-    const error = await listResponse.text();
-    throw new Error(`Failed to list customers: ${error}`);
+    await rejectWith(connectionId, await parseGoogleAdsError(listResponse));
   }
 
   const { resourceNames } = await listResponse.json();
-  const customerIds = (resourceNames || []).map((name: string) => name.replace('customers/', ''));
+  const rootIds: string[] = (resourceNames || []).map((name: string) => name.replace('customers/', ''));
 
-  // Get details for each customer
-  const customers: Array<{
-    customerId: string;
-    descriptiveName: string;
-    currencyCode: string;
-    timeZone: string;
-  }> = [];
+  const customers = new Map<string, GoogleAdsCustomer>();
 
-  for (const customerId of customerIds) {
+  for (const rootId of rootIds) {
     try {
-      const canProceed = await googleAdsRateLimiter.waitForToken(1, 30000);
-      if (!canProceed) continue;
-
-      const query = `
-        SELECT
-          customer.id,
-          customer.descriptive_name,
-          customer.currency_code,
-          customer.time_zone
-        FROM customer
-        LIMIT 1
-      `;
-
-      const response = await fetch(
-        `https://googleads.googleapis.com/v14/customers/${customerId}/googleAds:search`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            'developer-token': developerToken,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ query }),
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.results?.[0]?.customer) {
-          const customer = data.results[0].customer;
-          customers.push({
-            customerId: customer.id,
-            descriptiveName: customer.descriptiveName || `Account ${customer.id}`,
-            currencyCode: customer.currencyCode || 'USD',
-            timeZone: customer.timeZone || 'America/Los_Angeles',
+      // Every request below the root is made through it
+      const pending = [{ customerId: rootId, depth: 0 }];
+
+      while (pending.length > 0) {
+        const { customerId, depth } = pending.shift()!;
+        const rows = await queryGoogleAds(connectionId, customerId, CUSTOMER_CLIENT_QUERY, rootId);
+
+        for (const { customerClient: client } of rows) {
+          const id = String(client.id);
+          const isSelf = Number(client.level) === 0;
+          const existing = customers.get(id);
+
+          if (existing) {
+            // A directly accessible customer that also sits under a manager
+            if (!isSelf && !existing.parentCustomerId) {
+              existing.parentCustomerId = customerId;
+            }
+            continue;
+          }
+
+          customers.set(id, {
+            customerId: id,
+            descriptiveName: client.descriptiveName || `Account ${id}`,
+            currencyCode: client.currencyCode || 'USD',
+            timeZone: client.timeZone || 'America/Los_Angeles',
+            isManager: Boolean(client.manager),
+            parentCustomerId: isSelf ? null : customerId,
+            loginCustomerId: id === rootId ? null : rootId,
           });
+
+          if (!isSelf && client.manager && depth + 1 < MAX_HIERARCHY_DEPTH) {
+            pending.push({ customerId: id, depth: depth + 1 });
+          }
         }
       }
     } catch (e) {
-      console.error(`Error fetching customer ${customerId}:`, e);
+      console.error(`Error fetching customer ${rootId}:`, e);
     }
   }
 
-  return customers;
+  return Array.from(customers.values());
 }
 
 /**
- * Fetch campaign performance data
+ * Stream campaign performance data, one searchStream batch at a time
  */
-export async function fetchCampaignPerformance(
+export async function* streamCampaignPerformance(
   connectionId: string,
   customerId: string,
   startDate: string,
   endDate: string
-): Promise<GoogleAdsMetrics[]> {
+): AsyncGenerator<GoogleAdsMetrics[]> {
   const query = `
     SELECT
       segments.date,
@@ -316,30 +553,30 @@ export async function fetchCampaignPerformance(
     ORDER BY segments.date DESC
   `;
 
-  const results = await queryGoogleAds(connectionId, customerId, query);
-
-  return results.map((row: any) => ({
-    date: row.segments.date,
-    customerId: row.customer.id,
-    campaignId: row.campaign.id,
-    campaignName: row.campaign.name,
-    impressions: parseInt(row.metrics.impressions || '0'),
-    clicks: parseInt(row.metrics.clicks || '0'),
-    cost: parseInt(row.metrics.costMicros || '0') / 1000000,
-    conversions: parseFloat(row.metrics.conversions || '0'),
-    conversionValue: parseFloat(row.metrics.conversionsValue || '0'),
-  }));
+  for await (const results of streamGoogleAds(connectionId, customerId, query)) {
+    yield results.map((row: any) => ({
+      date: row.segments.date,
+      customerId: row.customer.id,
+      campaignId: row.campaign.id,
+      campaignName: row.campaign.name,
+      impressions: parseInt(row.metrics.impressions || '0'),
+      clicks: parseInt(row.metrics.clicks || '0'),
+      cost: parseInt(row.metrics.costMicros || '0') / 1000000,
+      conversions: parseFloat(row.metrics.conversions || '0'),
+      conversionValue: parseFloat(row.metrics.conversionsValue || '0'),
+    }));
+  }
 }
 
 /**
- * Fetch ad group performance data
+ * Stream ad group performance data, one searchStream batch at a time
  */
-export async function fetchAdGroupPerformance(
+export async function* streamAdGroupPerformance(
   connectionId: string,
   customerId: string,
   startDate: string,
   endDate: string
-): Promise<GoogleAdsMetrics[]> {
+): AsyncGenerator<GoogleAdsMetrics[]> {
   const query = `
     SELECT
       segments.date,
@@ -359,20 +596,211 @@ export async function fetchAdGroupPerformance(
     ORDER BY segments.date DESC
   `;
 
+  for await (const results of streamGoogleAds(connectionId, customerId, query)) {
+    yield results.map((row: any) => ({
+      date: row.segments.date,
+      customerId: row.customer.id,
+      campaignId: row.campaign.id,
+      campaignName: row.campaign.name,
+      adGroupId: row.adGroup.id,
+      adGroupName: row.adGroup.name,
+      impressions: parseInt(row.metrics.impressions || '0'),
+      clicks: parseInt(row.metrics.clicks || '0'),
+      cost: parseInt(row.metrics.costMicros || '0') / 1000000,
+      conversions: parseFloat(row.metrics.conversions || '0'),
+      conversionValue: parseFloat(row.metrics.conversionsValue || '0'),
+    }));
+  }
+}
+
+
+/**
+ * Stream ad performance data, one searchStream batch at a time
+ */
+export async function* streamAdPerformance(
+  connectionId: string,
+  customerId: string,
+  startDate: string,
+  endDate: string
+): AsyncGenerator<GoogleAdsMetrics[]> {
+  const query = `
+    SELECT
+      segments.date,
+      customer.id,
+      campaign.id,
+      campaign.name,
+      ad_group.id,
+      ad_group.name,
+      ad_group_ad.ad.id,
+      metrics.impressions,
+      metrics.clicks,
+      metrics.cost_micros,
+      metrics.conversions,
+      metrics.conversions_value
+    FROM ad_group_ad
+    WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'
+    ORDER BY segments.date DESC
+  `;
+
+  for await (const results of streamGoogleAds(connectionId, customerId, query)) {
+    yield results.map((row: any) => ({
+      date: row.segments.date,
+      customerId: row.customer.id,
+      campaignId: row.campaign.id,
+      campaignName: row.campaign.name,
+      adGroupId: row.adGroup.id,
+      adGroupName: row.adGroup.name,
+      adId: row.adGroupAd.ad.id,
+      impressions: parseInt(row.metrics.impressions || '0'),
+      clicks: parseInt(row.metrics.clicks || '0'),
+      cost: parseInt(row.metrics.costMicros || '0') / 1000000,
+      conversions: parseFloat(row.metrics.conversions || '0'),
+      conversionValue: parseFloat(row.metrics.conversionsValue || '0'),
+    }));
+  }
+}
+
+/**
+ * Fetch campaign metadata
+ */
+export async function fetchCampaigns(
+  connectionId: string,
+  customerId: string
+): Promise<CampaignDimension[]> {
+  const query = `
+    SELECT
+      campaign.id,
+      campaign.name,
+      campaign.status,
+      campaign.advertising_channel_type,
+      campaign_budget.amount_micros,
+      campaign_budget.period,
+      campaign.start_date,
+      campaign.end_date
+    FROM campaign
+    WHERE campaign.status != 'REMOVED'
+  `;
+
+  const results = await queryGoogleAds(connectionId, customerId, query);
+
+  return results.map((row: any) => ({
+    externalId: row.campaign.id,
+    name: row.campaign.name,
+    status: mapStatus(row.campaign.status),
+    type: row.campaign.advertisingChannelType,
+    budget: row.campaignBudget?.amountMicros
+      ? row.campaignBudget.amountMicros / 1000000
+      : null,
+    budgetType: row.campaignBudget?.amountMicros
+      ? row.campaignBudget.period === 'CUSTOM_PERIOD' ? 'LIFETIME' : 'DAILY'
+      : null,
+    startDate: row.campaign.startDate || null,
+    endDate: row.campaign.endDate || null,
+  }));
+}
+
+/**
+ * Fetch ad group metadata
+ */
+export async function fetchAdGroups(
+  connectionId: string,
+  customerId: string
+): Promise<AdGroupDimension[]> {
+  const query = `
+    SELECT
+      campaign.id,
+      ad_group.id,
+      ad_group.name,
+      ad_group.status
+    FROM ad_group
+    WHERE ad_group.status != 'REMOVED'
+  `;
+
+  const results = await queryGoogleAds(connectionId, customerId, query);
+
+  return results.map((row: any) => ({
+    externalId: row.adGroup.id,
+    campaignExternalId: row.campaign.id,
+    name: row.adGroup.name,
+    status: mapStatus(row.adGroup.status),
+  }));
+}
+
+/**
+ * Fetch ad metadata
+ */
+export async function fetchAds(
+  connectionId: string,
+  customerId: string
+): Promise<AdDimension[]> {
+  const query = `
+    SELECT
+      campaign.id,
+      ad_group.id,
+      ad_group_ad.ad.id,
+      ad_group_ad.ad.name,
+      ad_group_ad.ad.type,
+      ad_group_ad.status,
+      ad_group_ad.ad.final_urls,
+      ad_group_ad.ad.responsive_search_ad.headlines,
+      ad_group_ad.ad.responsive_search_ad.descriptions,
+      ad_group_ad.ad.responsive_display_ad.headlines,
+      ad_group_ad.ad.responsive_display_ad.descriptions,
+      ad_group_ad.ad.expanded_text_ad.headline_part1,
+      ad_group_ad.ad.expanded_text_ad.headline_part2,
+      ad_group_ad.ad.expanded_text_ad.description
+    FROM ad_group_ad
+    WHERE ad_group_ad.status != 'REMOVED'
+  `;
+
   const results = await queryGoogleAds(connectionId, customerId, query);
 
   return results.map((row: any) => ({
-    date: row.segments.date,
-    customerId: row.customer.id,
-    campaignId: row.campaign.id,
-    campaignName: row.campaign.name,
-    adGroupId: row.adGroup.id,
-    adGroupName: row.adGroup.name,
-    impressions: parseInt(row.metrics.impressions || '0'),
-    clicks: parseInt(row.metrics.clicks || '0'),
-    cost: parseInt(row.metrics.costMicros || '0') / 1000000,
-    conversions: parseFloat(row.metrics.conversions || '0'),
-    conversionValue: parseFloat(row.metrics.conversionsValue || '0'),
+    externalId: row.adGroupAd.ad.id,
+    campaignExternalId: row.campaign.id,
+    adGroupExternalId: row.adGroup.id,
+    name: row.adGroupAd.ad.name || null,
+    type: row.adGroupAd.ad.type || null,
+    status: mapStatus(row.adGroupAd.status),
+    ...mapAdCopy(row.adGroupAd.ad),
+    finalUrl: row.adGroupAd.ad.finalUrls?.[0] || null,
   }));
 }
 
+/**
+ * Headline and description of an ad. Responsive ads carry several of each;
+ * the first is kept.
+ */
+function mapAdCopy(ad: any): { headline: string | null; description: string | null } {
+  const responsive = ad.responsiveSearchAd ?? ad.responsiveDisplayAd;
+
+  if (responsive) {
+    return {
+      headline: responsive.headlines?.[0]?.text || null,
+      description: responsive.descriptions?.[0]?.text || null,
+    };
+  }
+
+  if (ad.expandedTextAd) {
+    const { headlinePart1, headlinePart2, description } = ad.expandedTextAd;
+    return {
+      headline: [headlinePart1, headlinePart2].filter(Boolean).join(' | ') || null,
+      description: description || null,
+    };
+  }
+
+  return { headline: null, description: null };
+}
+
+function mapStatus(status: string): EntityStatus {
+  switch (status) {
+    case 'ENABLED':
+      return 'ENABLED';
+    case 'PAUSED':
+      return 'PAUSED';
+    case 'REMOVED':
+      return 'REMOVED';
+    default:
+      return 'UNKNOWN';
+  }
+}
@@ -0,0 +1,354 @@
+import { env } from './env';
+import { metaAdsRateLimiter } from './redis';
+import { getValidConnectionToken } from './tokens';
+import type {
+  CampaignDimension,
+  AdGroupDimension,
+  AdDimension,
+  EntityStatus,
+  InsightsRow,
+  ProviderAccount,
+} from './connectors';
+
+const META_API_VERSION = 'v19.0';
+const META_GRAPH_URL = `https://graph.facebook.com/${META_API_VERSION}`;
+export const META_ADS_SCOPES = ['ads_read', 'business_management', 'email'];
+
+// Action types counted as conversions. These are distinct events, so summing
+// them does not double count the pixel/offline variants of the same action.
+const CONVERSION_ACTION_TYPES = ['purchase', 'lead', 'complete_registration'];
+
+function getAppCredentials(): { appId: string; appSecret: string; redirectUri: string } {
+  if (!env.META_APP_ID || !env.META_APP_SECRET) {
+    throw new Error('META_APP_ID and META_APP_SECRET are required');
+  }
+
+  return {
+    appId: env.META_APP_ID,
+    appSecret: env.META_APP_SECRET,
+    redirectUri: env.META_REDIRECT_URI,
+  };
+}
+
+/**
+ * Generate OAuth authorization URL for Meta Ads
+ */
+export function generateAuthUrl(state: string): string {
+  const { appId, redirectUri } = getAppCredentials();
+  const params = new URLSearchParams({
+    client_id: appId,
+    redirect_uri: redirectUri,
+    scope: META_ADS_SCOPES.join(','),
+    response_type: 'code',
+    state,
+  });
+
+  return `https://www.facebook.com/${META_API_VERSION}/dialog/oauth?${params.toString()}`;
+}
+
+/**
+ * Exchange a short-lived or long-lived token for a new long-lived token
+ */
+async function exchangeForLongLivedToken(token: string): Promise<{
+  accessToken: string;
+  expiryDate: number;
+}> {
+  const { appId, appSecret } = getAppCredentials();
+  const params = new URLSearchParams({
+    grant_type: 'fb_exchange_token',
+    client_id: appId,
+    client_secret: appSecret,
+    fb_exchange_token: token,
+  });
+
+  const response = await fetch(`${META_GRAPH_URL}/oauth/access_token?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Meta token exchange failed: ${error}`);
+  }
+
+  const data = await response.json();
+
+  return {
+    accessToken: data.access_token,
+    // Long-lived tokens last ~60 days
+    expiryDate: Date.now() + (data.expires_in || 60 * 24 * 3600) * 1000,
+  };
+}
+
+/**
+ * Exchange authorization code for tokens
+ *
+ * Meta has no refresh tokens: the long-lived access token is stored as both
+ * the access and refresh token and is re-exchanged before it expires.
+ */
+export async function exchangeCodeForTokens(code: string): Promise<{
+  accessToken: string;
+  refreshToken: string;
+  expiryDate: number;
+  email?: string;
+  providerAccountId?: string;
+}> {
+  const { appId, appSecret, redirectUri } = getAppCredentials();
+  const params = new URLSearchParams({
+    client_id: appId,
+    client_secret: appSecret,
+    redirect_uri: redirectUri,
+    code,
+  });
+
+  const response = await fetch(`${META_GRAPH_URL}/oauth/access_token?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to get tokens from Meta: ${error}`);
+  }
+
+  const { access_token: shortLivedToken } = await response.json();
+  const { accessToken, expiryDate } = await exchangeForLongLivedToken(shortLivedToken);
+
+  // Get user info
+  const meResponse = await fetch(
+    `${META_GRAPH_URL}/me?fields=id,email&access_token=${encodeURIComponent(accessToken)}`
+  );
+  const me = meResponse.ok ? await meResponse.json() : {};
+
+  return {
+    accessToken,
+    refreshToken: accessToken,
+    expiryDate,
+    email: me.email || undefined,
+    providerAccountId: me.id || undefined,
+  };
+}
+
+/**
+ * Refresh a long-lived access token. The new token also replaces the stored
+ * refresh token, so the next exchange starts from an unexpired token.
+ */
+export async function refreshAccessToken(refreshToken: string): Promise<{
+  accessToken: string;
+  expiryDate: number;
+  refreshToken: string;
+}> {
+  const { accessToken, expiryDate } = await exchangeForLongLivedToken(refreshToken);
+
+  return { accessToken, expiryDate, refreshToken: accessToken };
+}
+
+/**
+ * Check that an access token is still valid
+ */
+export async function validateAccessToken(accessToken: string): Promise<void> {
+  const response = await fetch(
+    `${META_GRAPH_URL}/me?fields=id&access_token=${encodeURIComponent(accessToken)}`
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Meta Ads API error: ${error}`);
+  }
+}
+
+/**
+ * Get valid access token for a connection, refreshing if necessary
+ */
+export async function getValidAccessToken(connectionId: string): Promise<string> {
+  return getValidConnectionToken(connectionId, refreshAccessToken);
+}
+
+/**
+ * Make a Marketing API GET request, following cursor pagination
+ */
+export async function queryMetaAds(
+  connectionId: string,
+  path: string,
+  params: Record<string, string>
+): Promise<any[]> {
+  const accessToken = await getValidAccessToken(connectionId);
+  const query = new URLSearchParams({ ...params, access_token: accessToken, limit: '500' });
+
+  let url: string | null = `${META_GRAPH_URL}/${path}?${query.toString()}`;
+  const results: any[] = [];
+
+  while (url) {
+    // Rate limit check
+    const canProceed = await metaAdsRateLimiter.waitForToken(1, 30000);
+    if (!canProceed) {
+      throw new Error('Rate limit exceeded. Please try again later.');
+    }
+
+    const response: Response = await fetch(url);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Meta Ads API error: ${error}`);
+    }
+
+    const data: any = await response.json();
+    results.push(...(data.data || []));
+    url = data.paging?.next || null;
+  }
+
+  return results;
+}
+
+/**
+ * Get list of ad accounts the connected user can access
+ */
+export async function listAdAccounts(connectionId: string): Promise<ProviderAccount[]> {
+  const accounts = await queryMetaAds(connectionId, 'me/adaccounts', {
+    fields: 'account_id,name,currency,timezone_name',
+  });
+
+  return accounts.map((account) => ({
+    externalId: account.account_id,
+    name: account.name || `Account ${account.account_id}`,
+    currency: account.currency || 'USD',
+    timezone: account.timezone_name || 'America/Los_Angeles',
+  }));
+}
+
+/**
+ * Fetch campaign metadata
+ */
+export async function fetchCampaigns(
+  connectionId: string,
+  accountId: string,
+  currency: string
+): Promise<CampaignDimension[]> {
+  const campaigns = await queryMetaAds(connectionId, `act_${accountId}/campaigns`, {
+    fields: 'id,name,status,objective,daily_budget,lifetime_budget,start_time,stop_time',
+  });
+
+  // Budgets are returned in the account currency's minor unit (cents for USD,
+  // whole yen for JPY)
+  const minorUnits = Math.pow(
+    10,
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2
+  );
+
+  return campaigns.map((campaign) => {
+    const budget = campaign.daily_budget || campaign.lifetime_budget;
+
+    return {
+      externalId: campaign.id,
+      name: campaign.name,
+      status: mapStatus(campaign.status),
+      type: campaign.objective || null,
+      budget: budget ? parseInt(budget) / minorUnits : null,
+      budgetType: campaign.daily_budget ? 'DAILY' : campaign.lifetime_budget ? 'LIFETIME' : null,
+      startDate: campaign.start_time ? campaign.start_time.split('T')[0] : null,
+      endDate: campaign.stop_time ? campaign.stop_time.split('T')[0] : null,
+    };
+  });
+}
+
+/**
+ * Fetch ad set metadata (Meta's equivalent of ad groups)
+ */
+export async function fetchAdSets(
+  connectionId: string,
+  accountId: string
+): Promise<AdGroupDimension[]> {
+  const adSets = await queryMetaAds(connectionId, `act_${accountId}/adsets`, {
+    fields: 'id,name,status,campaign_id',
+  });
+
+  return adSets.map((adSet) => ({
+    externalId: adSet.id,
+    campaignExternalId: adSet.campaign_id,
+    name: adSet.name,
+    status: mapStatus(adSet.status),
+  }));
+}
+
+/**
+ * Fetch ad metadata, including creative copy
+ */
+export async function fetchAds(
+  connectionId: string,
+  accountId: string
+): Promise<AdDimension[]> {
+  const ads = await queryMetaAds(connectionId, `act_${accountId}/ads`, {
+    fields: 'id,name,status,campaign_id,adset_id,creative{object_type,title,body,link_url}',
+  });
+
+  return ads.map((ad) => ({
+    externalId: ad.id,
+    campaignExternalId: ad.campaign_id,
+    adGroupExternalId: ad.adset_id,
+    name: ad.name || null,
+    type: ad.creative?.object_type || null,
+    status: mapStatus(ad.status),
+    headline: ad.creative?.title || null,
+    description: ad.creative?.body || null,
+    finalUrl: ad.creative?.link_url || null,
+  }));
+}
+
+/**
+ * Fetch daily insights at campaign, ad set or ad level
+ */
+export async function fetchInsights(
+  connectionId: string,
+  accountId: string,
+  level: 'campaign' | 'adset' | 'ad',
+  startDate: string,
+  endDate: string
+): Promise<InsightsRow[]> {
+  const rows = await queryMetaAds(connectionId, `act_${accountId}/insights`, {
+    level,
+    time_increment: '1',
+    time_range: JSON.stringify({ since: startDate, until: endDate }),
+    fields: [
+      'date_start',
+      'campaign_id',
+      'campaign_name',
+      'adset_id',
+      'adset_name',
+      'ad_id',
+      'impressions',
+      'clicks',
+      'spend',
+      'actions',
+      'action_values',
+    ].join(','),
+  });
+
+  return rows.map((row) => ({
+    date: row.date_start,
+    accountId,
+    campaignId: row.campaign_id,
+    campaignName: row.campaign_name,
+    adGroupId: level !== 'campaign' ? row.adset_id : undefined,
+    adGroupName: level !== 'campaign' ? row.adset_name : undefined,
+    adId: level === 'ad' ? row.ad_id : undefined,
+    impressions: parseInt(row.impressions || '0'),
+    clicks: parseInt(row.clicks || '0'),
+    cost: parseFloat(row.spend || '0'),
+    conversions: sumActions(row.actions),
+    conversionValue: sumActions(row.action_values),
+  }));
+}
+
+function sumActions(actions?: Array<{ action_type: string; value: string }>): number {
+  return (actions || [])
+    .filter((action) => CONVERSION_ACTION_TYPES.includes(action.action_type))
+    .reduce((sum, action) => sum + parseFloat(action.value || '0'), 0);
+}
+
+function mapStatus(status: string): EntityStatus {
+  switch (status) {
+    case 'ACTIVE':
+      return 'ENABLED';
+    case 'PAUSED':
+      return 'PAUSED';
+    case 'DELETED':
+    case 'ARCHIVED':
+      return 'REMOVED';
+    default:
+      return 'UNKNOWN';
+  }
+}
@@ -0,0 +1,55 @@
+import type { Connection, NotificationType } from '@prisma/client';
+import prisma from './prisma';
+
+const PROVIDER_NAMES: Record<Connection['provider'], string> = {
+  GOOGLE_ADS: 'Google Ads',
+  META_ADS: 'Meta Ads',
+  TIKTOK_ADS: 'TikTok Ads',
+};
+
+/**
+ * Send an in-app notification to every admin of an organization
+ */
+export async function notifyOrganizationAdmins(
+  organizationId: string,
+  notification: {
+    type: NotificationType;
+    title: string;
+    message: string;
+    connectionId?: string;
+  }
+): Promise<number> {
+  const admins = await prisma.membership.findMany({
+    where: { organizationId, role: 'ADMIN' },
+    select: { userId: true },
+  });
+
+  const { count } = await prisma.notification.createMany({
+    data: admins.map(({ userId }) => ({
+      organizationId,
+      userId,
+      ...notification,
+    })),
+  });
+
+  return count;
+}
+
+/**
+ * Tell an organization's admins that a connection stopped working and needs
+ * attention
+ */
+export async function notifyConnectionUnhealthy(connection: Connection): Promise<void> {
+  const name = PROVIDER_NAMES[connection.provider];
+  const login = connection.providerEmail ? ` (${connection.providerEmail})` : '';
+  const expired = connection.status === 'EXPIRED';
+
+  await notifyOrganizationAdmins(connection.organizationId, {
+    type: expired ? 'CONNECTION_EXPIRED' : 'CONNECTION_ERROR',
+    title: expired ? `${name} connection expired` : `${name} connection failing`,
+    message: expired
+      ? `The ${name} connection${login} is no longer authorized and its accounts will not sync until it is reconnected.`
+      : `Health checks for the ${name} connection${login} keep failing: ${connection.errorMessage ?? 'unknown error'}`,
+    connectionId: connection.id,
+  });
+}
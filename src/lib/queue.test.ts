@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Repeat } from 'bullmq';
+import type { JobsOptions, Queue, RepeatableJob } from 'bullmq';
+import type { PrismaClient } from '@prisma/client';
+import type { ScheduledSyncJobData } from './queue';
+
+const ORGANIZATION_ID = 'org_1';
+
+const schedule = {
+  dailySyncCron: '0 1 * * *',
+  intradaySyncCron: '0 */4 * * *',
+  syncTimezone: 'UTC',
+};
+
+// Only the queries scheduleOrganizationSyncs makes
+global.prisma = {
+  organization: {
+    findUniqueOrThrow: async () => ({ ...schedule }),
+  },
+  adAccount: {
+    findMany: async () => [{ timezone: 'America/New_York' }],
+  },
+} as unknown as PrismaClient;
+
+// BullMQ's own parser for stored repeat keys, the one getRepeatableJobs() uses
+const keyToData = (Repeat.prototype as unknown as { keyToData(key: string): RepeatableJob }).keyToData;
+
+/**
+ * In-memory stand-in for the scheduler queue's repeatable jobs, storing keys in
+ * the `name:jobId:endDate:tz:pattern` format BullMQ 4 writes to Redis
+ */
+function createRepeatableQueue() {
+  const keys = new Set<string>();
+
+  const queue = {
+    async add(name: string, _data: ScheduledSyncJobData, opts: JobsOptions) {
+      keys.add(`${name}:${opts.jobId ?? ''}::${opts.repeat?.tz ?? ''}:${opts.repeat?.pattern}`);
+    },
+    async getRepeatableJobs() {
+      return [...keys].map((key) => keyToData(key));
+    },
+    async removeRepeatableByKey(key: string) {
+      return keys.delete(key);
+    },
+  };
+
+  return queue as unknown as Queue<ScheduledSyncJobData>;
+}
+
+test('rescheduling an organization replaces its repeatable jobs', async () => {
+  const { scheduleOrganizationSyncs } = await import('./queue');
+  const queue = createRepeatableQueue();
+
+  await scheduleOrganizationSyncs(ORGANIZATION_ID, queue);
+
+  // As PUT /api/sync/schedule does after changing the crons
+  schedule.dailySyncCron = '0 3 * * *';
+  schedule.intradaySyncCron = '0 */2 * * *';
+  await scheduleOrganizationSyncs(ORGANIZATION_ID, queue);
+
+  const jobs = await queue.getRepeatableJobs();
+  const daily = jobs.filter((job) => job.id?.startsWith('daily-sync'));
+  const intraday = jobs.filter((job) => job.id?.startsWith('intraday-sync'));
+
+  assert.equal(daily.length, 1);
+  assert.equal(intraday.length, 1);
+  assert.equal(daily[0].tz, 'America/New_York');
+  assert.equal(daily[0].pattern, '0 3 * * *');
+  assert.equal(intraday[0].pattern, '0 */2 * * *');
+});
+
+test('unscheduling leaves other organizations alone', async () => {
+  const { scheduleOrganizationSyncs, unscheduleOrganizationSyncs } = await import('./queue');
+  const queue = createRepeatableQueue();
+
+  await scheduleOrganizationSyncs(ORGANIZATION_ID, queue);
+  await scheduleOrganizationSyncs('org_2', queue);
+  await unscheduleOrganizationSyncs(ORGANIZATION_ID, queue);
+
+  const jobs = await queue.getRepeatableJobs();
+
+  assert.equal(jobs.length, 2);
+  assert.ok(jobs.every((job) => job.id?.includes('org_2')));
+});
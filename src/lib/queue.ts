@@ -1,5 +1,9 @@
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
-import { createBullConnection } from './redis';
+import type { JobStatus, JobType, SyncJob } from '@prisma/client';
+import { cache, createBullConnection } from './redis';
+import prisma from './prisma';
+import { addDays, getDailySyncWindow, getLocalDate, splitDateRange } from './dates';
+import { SYNC_BACKOFF_TYPE } from './sync-errors';
 
 // Job types
 export type SyncJobData = {
@@ -12,6 +16,8 @@ export type SyncJobData = {
   provider: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
   organizationId: string;
   initiatedBy?: string;
+  parentJobId?: string; // Backfill this job is a chunk of
+  syncJobId: string; // SyncJob row the worker reports to; also the BullMQ job ID
 };
 
 export type DimensionSyncJobData = {
@@ -23,17 +29,35 @@ export type DimensionSyncJobData = {
   organizationId: string;
 };
 
-export type JobData = SyncJobData | DimensionSyncJobData;
+export type ScheduledSyncJobData = {
+  type: 'scheduled_sync';
+  trigger: 'daily' | 'intraday';
+  organizationId: string;
+  timezone?: string; // Account timezone a daily run covers
+};
+
+export type HealthCheckJobData = {
+  type: 'check_connections';
+};
+
+export type JobData = SyncJobData | DimensionSyncJobData | ScheduledSyncJobData | HealthCheckJobData;
 
 // Queue names
 export const QUEUE_NAMES = {
   SYNC: 'ads-sync',
   DIMENSIONS: 'ads-dimensions',
+  SCHEDULER: 'ads-scheduler',
+  HEALTH: 'connection-health',
 } as const;
 
+// How often the connection monitor validates every connection
+export const HEALTH_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
 // Queue instances
 let syncQueue: Queue<SyncJobData> | null = null;
 let dimensionsQueue: Queue<DimensionSyncJobData> | null = null;
+let schedulerQueue: Queue<ScheduledSyncJobData> | null = null;
+let healthQueue: Queue<HealthCheckJobData> | null = null;
 
 // Get or create sync queue
 export function getSyncQueue(): Queue<SyncJobData> {
@@ -42,9 +66,9 @@ export function getSyncQueue(): Queue<SyncJobData> {
       connection: createBullConnection(),
       defaultJobOptions: {
         attempts: 3,
+        // Delay depends on the failure; see syncBackoffStrategy
         backoff: {
-          type: 'exponential',
-          delay: 5000,
+          type: SYNC_BACKOFF_TYPE,
         },
         removeOnComplete: {
           count: 1000,
@@ -85,17 +109,78 @@ export function getDimensionsQueue(): Queue<DimensionSyncJobData> {
   return dimensionsQueue;
 }
 
-// Add job to sync queue
+// Get or create scheduler queue
+export function getSchedulerQueue(): Queue<ScheduledSyncJobData> {
+  if (!schedulerQueue) {
+    schedulerQueue = new Queue<ScheduledSyncJobData>(QUEUE_NAMES.SCHEDULER, {
+      connection: createBullConnection(),
+      defaultJobOptions: {
+        // A missed fan-out is picked up by the next firing
+        attempts: 1,
+        removeOnComplete: {
+          count: 500,
+          age: 7 * 24 * 3600,
+        },
+        removeOnFail: {
+          count: 500,
+          age: 7 * 24 * 3600,
+        },
+      },
+    });
+  }
+  return schedulerQueue;
+}
+
+// Get or create connection health queue
+export function getHealthQueue(): Queue<HealthCheckJobData> {
+  if (!healthQueue) {
+    healthQueue = new Queue<HealthCheckJobData>(QUEUE_NAMES.HEALTH, {
+      connection: createBullConnection(),
+      defaultJobOptions: {
+        // The next run checks every connection again
+        attempts: 1,
+        removeOnComplete: {
+          count: 100,
+          age: 24 * 3600,
+        },
+        removeOnFail: {
+          count: 100,
+          age: 7 * 24 * 3600,
+        },
+      },
+    });
+  }
+  return healthQueue;
+}
+
+// Register (or replace) the repeatable connection health check
+export async function scheduleConnectionHealthChecks(): Promise<void> {
+  const queue = getHealthQueue();
+
+  for (const job of await queue.getRepeatableJobs()) {
+    await queue.removeRepeatableByKey(job.key);
+  }
+
+  await queue.add(
+    'check_connections',
+    { type: 'check_connections' },
+    {
+      repeat: { every: HEALTH_CHECK_INTERVAL_MS, immediately: true },
+      jobId: 'connection-health',
+    }
+  );
+}
+
+// Add job to sync queue, keyed by its SyncJob row
 export async function addSyncJob(data: SyncJobData, options?: {
   delay?: number;
   priority?: number;
-  jobId?: string;
 }): Promise<Job<SyncJobData>> {
   const queue = getSyncQueue();
   return queue.add(data.type, data, {
     delay: options?.delay,
     priority: options?.priority,
-    jobId: options?.jobId,
+    jobId: data.syncJobId,
   });
 }
 
@@ -105,56 +190,381 @@ export async function addDimensionsJob(data: DimensionSyncJobData): Promise<Job<
   return queue.add(data.type, data);
 }
 
-// Schedule daily sync for all active accounts
+// Repeatable job IDs for an organization's schedules. BullMQ stores repeatables
+// under colon-separated keys and reads the ID back as the second segment, so
+// these IDs must not contain ':' or getRepeatableJobs() returns them truncated.
+const dailySyncJobId = (organizationId: string, timezone: string) => `daily-sync|${organizationId}|${timezone}`;
+const intradaySyncJobId = (organizationId: string) => `intraday-sync|${organizationId}`;
+
+// Register (or replace) the repeatable daily and intraday jobs for an organization.
+// The daily pattern is evaluated in each account timezone, so one daily job is
+// registered per distinct timezone and fires after that timezone's midnight.
+export async function scheduleOrganizationSyncs(
+  organizationId: string,
+  queue: Queue<ScheduledSyncJobData> = getSchedulerQueue()
+): Promise<void> {
+  const [organization, timezones] = await Promise.all([
+    prisma.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { dailySyncCron: true, intradaySyncCron: true, syncTimezone: true },
+    }),
+    prisma.adAccount.findMany({
+      where: { organizationId, isEnabled: true, isManager: false },
+      select: { timezone: true },
+      distinct: ['timezone'],
+    }),
+  ]);
+
+  await unscheduleOrganizationSyncs(organizationId, queue);
+
+  for (const { timezone } of timezones) {
+    await queue.add(
+      'scheduled_sync',
+      { type: 'scheduled_sync', trigger: 'daily', organizationId, timezone },
+      {
+        repeat: { pattern: organization.dailySyncCron, tz: timezone },
+        jobId: dailySyncJobId(organizationId, timezone),
+      }
+    );
+  }
+
+  if (organization.intradaySyncCron) {
+    await queue.add(
+      'scheduled_sync',
+      { type: 'scheduled_sync', trigger: 'intraday', organizationId },
+      {
+        repeat: { pattern: organization.intradaySyncCron, tz: organization.syncTimezone },
+        jobId: intradaySyncJobId(organizationId),
+      }
+    );
+  }
+}
+
+// Remove the repeatable jobs for an organization
+export async function unscheduleOrganizationSyncs(
+  organizationId: string,
+  queue: Queue<ScheduledSyncJobData> = getSchedulerQueue()
+): Promise<void> {
+  const repeatableJobs = await queue.getRepeatableJobs();
+
+  for (const job of repeatableJobs) {
+    if (
+      job.id?.startsWith(dailySyncJobId(organizationId, '')) ||
+      job.id === intradaySyncJobId(organizationId)
+    ) {
+      await queue.removeRepeatableByKey(job.key);
+    }
+  }
+}
+
+// Schedule daily sync of today and the lookback window in the account's timezone
 export async function scheduleDailySyncForAccount(account: {
   id: string;
   connectionId: string;
   externalId: string;
   provider: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
   organizationId: string;
-}): Promise<Job<SyncJobData>> {
-  const today = new Date();
-  const yesterday = new Date(today);
-  yesterday.setDate(yesterday.getDate() - 1);
+  timezone: string;
+}, lookbackDays: number = 1): Promise<Job<SyncJobData>> {
+  const { from, to } = getDailySyncWindow(account.timezone, lookbackDays);
 
-  const formatDate = (d: Date) => d.toISOString().split('T')[0];
+  const syncJob = await prisma.syncJob.create({
+    data: {
+      adAccountId: account.id,
+      jobType: 'DAILY_SYNC',
+      status: 'PENDING',
+      dateFrom: new Date(from),
+      dateTo: new Date(to),
+    },
+  });
 
   return addSyncJob({
     type: 'sync_account_daily',
     adAccountId: account.id,
     connectionId: account.connectionId,
     customerId: account.externalId,
-    dateFrom: formatDate(yesterday),
-    dateTo: formatDate(today),
+    dateFrom: from,
+    dateTo: to,
     provider: account.provider,
     organizationId: account.organizationId,
+    syncJobId: syncJob.id,
   });
 }
 
-// Schedule initial backfill for a new account
+// Days covered by each backfill chunk
+const BACKFILL_CHUNK_DAYS = 30;
+
+// Split a backfill into chunks, each with its own SyncJob row and queued job.
+// The returned parent row aggregates chunk progress and is never queued itself.
+export async function scheduleBackfill(account: {
+  id: string;
+  connectionId: string;
+  externalId: string;
+  provider: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
+  organizationId: string;
+}, dateFrom: string, dateTo: string, options: {
+  jobType?: 'INITIAL_SYNC' | 'BACKFILL';
+  initiatedBy?: string;
+} = {}): Promise<SyncJob> {
+  const jobType = options.jobType ?? 'BACKFILL';
+  const chunks = splitDateRange(dateFrom, dateTo, BACKFILL_CHUNK_DAYS);
+
+  const parent = await prisma.syncJob.create({
+    data: {
+      adAccountId: account.id,
+      jobType,
+      status: 'PENDING',
+      dateFrom: new Date(dateFrom),
+      dateTo: new Date(dateTo),
+      metrics: { chunksTotal: chunks.length, chunksCompleted: 0, chunksFailed: 0, progress: 0 },
+      initiatedBy: options.initiatedBy,
+    },
+  });
+
+  // Queue the most recent chunk first so current data lands soonest
+  for (const chunk of chunks.reverse()) {
+    const chunkJob = await prisma.syncJob.create({
+      data: {
+        adAccountId: account.id,
+        jobType,
+        status: 'PENDING',
+        dateFrom: new Date(chunk.from),
+        dateTo: new Date(chunk.to),
+        parentJobId: parent.id,
+        initiatedBy: options.initiatedBy,
+      },
+    });
+
+    await addSyncJob({
+      type: 'backfill_range',
+      adAccountId: account.id,
+      connectionId: account.connectionId,
+      customerId: account.externalId,
+      dateFrom: chunk.from,
+      dateTo: chunk.to,
+      provider: account.provider,
+      organizationId: account.organizationId,
+      initiatedBy: options.initiatedBy,
+      parentJobId: parent.id,
+      syncJobId: chunkJob.id,
+    });
+  }
+
+  return parent;
+}
+
+// Schedule initial backfill for a new account, ending today in its timezone
 export async function scheduleInitialSync(account: {
   id: string;
   connectionId: string;
   externalId: string;
   provider: 'GOOGLE_ADS' | 'META_ADS' | 'TIKTOK_ADS';
   organizationId: string;
-}, daysBack: number = 90): Promise<Job<SyncJobData>> {
-  const today = new Date();
-  const startDate = new Date(today);
-  startDate.setDate(startDate.getDate() - daysBack);
+  timezone: string;
+}, daysBack: number = 90): Promise<SyncJob> {
+  const today = getLocalDate(account.timezone);
+
+  return scheduleBackfill(account, addDays(today, -daysBack), today, { jobType: 'INITIAL_SYNC' });
+}
+
+// Queue job type for each SyncJob type
+const SYNC_JOB_TYPES: Record<JobType, SyncJobData['type']> = {
+  INITIAL_SYNC: 'backfill_range',
+  BACKFILL: 'backfill_range',
+  DAILY_SYNC: 'sync_account_daily',
+  INTRADAY_SYNC: 'sync_account_intraday',
+  MANUAL_SYNC: 'manual_sync',
+};
+
+// Re-queue a failed or cancelled sync job from its SyncJob row, resetting its
+// failure state. Works after BullMQ has aged the original job out. Retrying a
+// backfill chunk puts its parent back to RUNNING. The job keeps the user who
+// started it; one that has none is credited to the user retrying it.
+export async function retrySyncJob(syncJobId: string, retriedBy?: string): Promise<void> {
+  const syncJob = await prisma.syncJob.findUniqueOrThrow({
+    where: { id: syncJobId },
+    include: { adAccount: true },
+  });
+
+  // A failed job is kept in the queue and would block re-adding its ID
+  const existing = await getSyncQueue().getJob(syncJob.id);
+  if (existing) {
+    await existing.remove();
+  }
+
+  const initiatedBy = syncJob.initiatedBy ?? retriedBy;
+
+  await prisma.syncJob.update({
+    where: { id: syncJob.id },
+    data: {
+      status: 'PENDING',
+      startedAt: null,
+      completedAt: null,
+      errorMessage: null,
+      failureKind: null,
+      attempts: 0,
+      deadLetteredAt: null,
+      initiatedBy,
+    },
+  });
 
   const formatDate = (d: Date) => d.toISOString().split('T')[0];
 
-  return addSyncJob({
-    type: 'backfill_range',
-    adAccountId: account.id,
-    connectionId: account.connectionId,
-    customerId: account.externalId,
-    dateFrom: formatDate(startDate),
-    dateTo: formatDate(today),
-    provider: account.provider,
-    organizationId: account.organizationId,
+  await addSyncJob({
+    type: SYNC_JOB_TYPES[syncJob.jobType],
+    adAccountId: syncJob.adAccount.id,
+    connectionId: syncJob.adAccount.connectionId,
+    customerId: syncJob.adAccount.externalId,
+    dateFrom: formatDate(syncJob.dateFrom),
+    dateTo: formatDate(syncJob.dateTo),
+    provider: syncJob.adAccount.provider,
+    organizationId: syncJob.adAccount.organizationId,
+    initiatedBy: initiatedBy ?? undefined,
+    parentJobId: syncJob.parentJobId ?? undefined,
+    syncJobId: syncJob.id,
+  });
+
+  if (syncJob.parentJobId) {
+    await updateBackfillProgress(syncJob.parentJobId);
+  }
+}
+
+// Re-queue the failed and cancelled chunks of a backfill, leaving completed
+// chunks alone. Returns the number of chunks re-queued.
+export async function resumeBackfill(parentJobId: string, retriedBy?: string): Promise<number> {
+  const chunks = await prisma.syncJob.findMany({
+    where: { parentJobId, status: { in: ['FAILED', 'CANCELLED'] } },
+    select: { id: true },
+  });
+
+  for (const chunk of chunks) {
+    await retrySyncJob(chunk.id, retriedBy);
+  }
+
+  return chunks.length;
+}
+
+// Recompute a backfill parent's status and progress from its chunks
+export async function updateBackfillProgress(parentJobId: string): Promise<void> {
+  const chunks = await prisma.syncJob.findMany({
+    where: { parentJobId },
+    select: { status: true, metrics: true },
+  });
+
+  const count = (status: JobStatus) => chunks.filter((c) => c.status === status).length;
+  const completed = count('COMPLETED');
+  const failed = count('FAILED');
+  const cancelled = count('CANCELLED');
+  const inFlight = chunks.length - completed - failed - cancelled;
+  const rowsProcessed = chunks.reduce(
+    (sum, c) => sum + (Number((c.metrics as { rowsProcessed?: number } | null)?.rowsProcessed) || 0),
+    0
+  );
+
+  let status: JobStatus = 'RUNNING';
+  if (inFlight === 0) {
+    status = failed > 0 ? 'FAILED' : cancelled > 0 ? 'CANCELLED' : 'COMPLETED';
+  }
+
+  const parent = await prisma.syncJob.findUniqueOrThrow({
+    where: { id: parentJobId },
+    select: { startedAt: true },
+  });
+
+  await prisma.syncJob.update({
+    where: { id: parentJobId },
+    data: {
+      status,
+      startedAt: parent.startedAt ?? (status === 'RUNNING' || completed + failed > 0 ? new Date() : null),
+      completedAt: inFlight === 0 ? new Date() : null,
+      errorMessage: failed > 0 ? `${failed} of ${chunks.length} chunks failed` : null,
+      metrics: {
+        chunksTotal: chunks.length,
+        chunksCompleted: completed,
+        chunksFailed: failed,
+        progress: Math.round((completed / chunks.length) * 100),
+        rowsProcessed,
+      },
+    },
+  });
+}
+
+const cancelKey = (syncJobId: string) => `sync:cancel:${syncJobId}`;
+
+// Whether cancellation has been requested for an active sync job
+export async function isCancellationRequested(syncJobId: string): Promise<boolean> {
+  return (await cache.get(cancelKey(syncJobId))) !== null;
+}
+
+// Clear a handled cancellation request
+export async function clearCancellationRequest(syncJobId: string): Promise<void> {
+  await cache.del(cancelKey(syncJobId));
+}
+
+// Cancel a sync job. Waiting jobs are removed from the queue and marked
+// CANCELLED; active jobs are flagged and stop at the worker's next checkpoint.
+export async function cancelSyncJob(syncJobId: string): Promise<'cancelled' | 'cancelling'> {
+  const job = await getSyncQueue().getJob(syncJobId);
+
+  if (job) {
+    const state = await job.getState();
+
+    try {
+      if (state === 'active') throw new Error('Job is active');
+      await job.remove();
+    } catch {
+      // Active, or picked up by a worker since the state check
+      await cache.set(cancelKey(syncJobId), true, 24 * 3600);
+      return 'cancelling';
+    }
+  }
+
+  const syncJob = await prisma.syncJob.update({
+    where: { id: syncJobId },
+    data: { status: 'CANCELLED', completedAt: new Date() },
+  });
+
+  await settleAccountSyncStatus(syncJob.adAccountId);
+
+  return 'cancelled';
+}
+
+// Cancel every unfinished chunk of a backfill
+export async function cancelBackfill(parentJobId: string): Promise<{ cancelled: number; cancelling: number }> {
+  const chunks = await prisma.syncJob.findMany({
+    where: { parentJobId, status: { in: ['PENDING', 'RUNNING'] } },
+    select: { id: true },
   });
+
+  let cancelled = 0;
+  for (const chunk of chunks) {
+    if ((await cancelSyncJob(chunk.id)) === 'cancelled') cancelled++;
+  }
+
+  await updateBackfillProgress(parentJobId);
+
+  return { cancelled, cancelling: chunks.length - cancelled };
+}
+
+// Reset an account's sync status once it has no queued or running jobs left
+export async function settleAccountSyncStatus(adAccountId: string): Promise<void> {
+  const inFlight = await prisma.syncJob.count({
+    where: { adAccountId, status: { in: ['PENDING', 'RUNNING'] }, chunks: { none: {} } },
+  });
+
+  if (inFlight > 0) return;
+
+  const account = await prisma.adAccount.findUniqueOrThrow({
+    where: { id: adAccountId },
+    select: { syncStatus: true, lastSyncedAt: true },
+  });
+
+  if (account.syncStatus === 'SYNCING') {
+    await prisma.adAccount.update({
+      where: { id: adAccountId },
+      data: { syncStatus: account.lastSyncedAt ? 'SYNCED' : 'PENDING' },
+    });
+  }
 }
 
 // Get queue stats
@@ -134,8 +134,10 @@ export class RateLimiter {
   }
 }
 
-// Create rate limiters for Google Ads API
+// Create rate limiters for ad platform APIs
 export const googleAdsRateLimiter = new RateLimiter('google-ads', 60, 1); // 60 requests per minute
+export const metaAdsRateLimiter = new RateLimiter('meta-ads', 60, 1); // 60 requests per minute
+export const tiktokAdsRateLimiter = new RateLimiter('tiktok-ads', 60, 1); // 60 requests per minute
 
 export default { getRedis, cache, RateLimiter };
 
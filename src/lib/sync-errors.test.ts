@@ -0,0 +1,206 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Redis from 'ioredis';
+import type { Job } from 'bullmq';
+import type { PrismaClient } from '@prisma/client';
+import type { SyncJobData } from './queue';
+
+process.env.ENCRYPTION_KEY = 'test-encryption-key-of-32-bytes!';
+
+// SyncJob updates the processor made, in order
+const jobUpdates: Array<Record<string, unknown>> = [];
+
+before(async () => {
+  // No cancellation has been requested, and the rate limiter always grants a token
+  mock.method(Redis.prototype, 'get', async () => null);
+  mock.method(Redis.prototype, 'eval', async () => 1);
+
+  const { encrypt } = await import('./encryption');
+
+  global.prisma = {
+    connection: {
+      findUnique: async () => ({
+        id: 'conn_1',
+        accessTokenEnc: encrypt('access-token'),
+        accessTokenExpiry: new Date(Date.now() + 24 * 3600 * 1000),
+      }),
+    },
+    syncJob: {
+      updateMany: async ({ data }: { data: Record<string, unknown> }) => {
+        jobUpdates.push(data);
+        return { count: 1 };
+      },
+      findUnique: async () => ({ parentJobId: null }),
+    },
+    adAccount: {
+      update: async () => ({}),
+    },
+  } as unknown as PrismaClient;
+});
+
+after(() => {
+  mock.restoreAll();
+});
+
+test('classifies failures by kind', async () => {
+  const { classifySyncError, SyncError } = await import('./sync-errors');
+  const { Prisma } = await import('@prisma/client');
+
+  const cases: Array<[unknown, string]> = [
+    [new SyncError('Account is disabled', 'ACCOUNT_DISABLED'), 'ACCOUNT_DISABLED'],
+    [new Error('invalid_grant'), 'AUTH_EXPIRED'],
+    [new Error('Meta API error: {"type":"OAuthException","code":190}'), 'AUTH_EXPIRED'],
+    [new Error('Request failed with status 429'), 'QUOTA'],
+    [new Error('User request limit reached: rate limit'), 'QUOTA'],
+    [new Error('socket hang up'), 'TRANSIENT'],
+    [new Error('fetch failed', { cause: { code: 'ECONNRESET' } }), 'TRANSIENT'],
+    [new Error('Request failed with status 503'), 'TRANSIENT'],
+    [new Error('Unrecognized field "foo"'), 'BAD_QUERY'],
+    [new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.22.0' }), 'DATA_ERROR'],
+    [new Error('Something odd happened'), 'UNKNOWN'],
+    ['not an error', 'UNKNOWN'],
+  ];
+
+  for (const [error, kind] of cases) {
+    assert.equal(classifySyncError(error), kind, String(error));
+  }
+});
+
+test('only quota, transient and unknown failures are retried', async () => {
+  const { isRetryableFailure } = await import('./sync-errors');
+
+  const retryable = ['QUOTA', 'TRANSIENT', 'UNKNOWN'] as const;
+  const permanent = ['AUTH_EXPIRED', 'PERMISSION_DENIED', 'ACCOUNT_DISABLED', 'BAD_QUERY', 'DATA_ERROR'] as const;
+
+  for (const kind of retryable) assert.equal(isRetryableFailure(kind), true, kind);
+  for (const kind of permanent) assert.equal(isRetryableFailure(kind), false, kind);
+});
+
+test('backs off per failure kind and fails permanent errors immediately', async () => {
+  const { syncBackoffStrategy, SyncError } = await import('./sync-errors');
+
+  const quota = new SyncError('Rate limit exceeded', 'QUOTA');
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', quota), 60 * 1000);
+  assert.equal(syncBackoffStrategy(3, 'sync-failure', quota), 240 * 1000);
+
+  const transient = new Error('ETIMEDOUT');
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', transient), 5 * 1000);
+  assert.equal(syncBackoffStrategy(2, 'sync-failure', transient), 10 * 1000);
+
+  // The provider's requested delay wins over the exponential one
+  assert.equal(syncBackoffStrategy(3, 'sync-failure', new SyncError('Slow down', 'QUOTA', 12000)), 12000);
+
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', new Error('invalid_grant')), -1);
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', new SyncError('No access', 'PERMISSION_DENIED')), -1);
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', new Error('Unrecognized field "foo"')), -1);
+});
+
+test('Google quota errors wait out the delay Google returns', async () => {
+  const { parseGoogleAdsError } = await import('./google-ads');
+  const { classifySyncError, syncBackoffStrategy } = await import('./sync-errors');
+
+  // searchStream wraps the error in an array
+  const body = [{
+    error: {
+      code: 429,
+      message: 'Resource has been exhausted (e.g. check quota).',
+      status: 'RESOURCE_EXHAUSTED',
+      details: [{
+        '@type': 'type.googleapis.com/google.ads.googleads.v17.errors.GoogleAdsFailure',
+        errors: [{
+          errorCode: { quotaError: 'RESOURCE_EXHAUSTED' },
+          message: 'Too many requests. Retry in 30 seconds.',
+          details: { quotaErrorDetails: { retryDelay: '30s' } },
+        }],
+        requestId: 'req_1',
+      }],
+    },
+  }];
+
+  const error = await parseGoogleAdsError(new Response(JSON.stringify(body), { status: 429 }));
+
+  assert.equal(error.type, 'QUOTA_ERROR');
+  assert.equal(error.requestId, 'req_1');
+  assert.equal(classifySyncError(error), 'QUOTA');
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', error), 30 * 1000);
+
+  // Without a GoogleAdsFailure, the status code and Retry-After header decide
+  const bare = await parseGoogleAdsError(
+    new Response('Too Many Requests', { status: 429, headers: { 'Retry-After': '12' } })
+  );
+
+  assert.equal(classifySyncError(bare), 'QUOTA');
+  assert.equal(syncBackoffStrategy(1, 'sync-failure', bare), 12 * 1000);
+});
+
+/**
+ * Run a Meta sync job whose insights request gets the given response
+ */
+async function runFailingJob(status: number, body: string, attemptsMade: number) {
+  const { processSyncJob } = await import('../workers/sync-processor');
+
+  const request = mock.method(globalThis, 'fetch', async () => new Response(body, { status }));
+  jobUpdates.length = 0;
+
+  const job = {
+    data: {
+      type: 'sync_account_daily',
+      adAccountId: 'acc_1',
+      connectionId: 'conn_1',
+      customerId: 'act_1',
+      dateFrom: '2024-01-01',
+      dateTo: '2024-01-03',
+      provider: 'META_ADS',
+      organizationId: 'org_1',
+      syncJobId: 'job_1',
+    },
+    attemptsMade,
+    opts: { attempts: 3 },
+    updateProgress: async () => {},
+  } as unknown as Job<SyncJobData>;
+
+  try {
+    return await processSyncJob(job).then(
+      () => assert.fail('Expected the job to fail'),
+      (thrown: unknown) => thrown
+    );
+  } finally {
+    request.mock.restore();
+  }
+}
+
+test('a retryable failure with attempts left goes back to pending', async () => {
+  const thrown = await runFailingJob(503, 'Service Unavailable', 0);
+
+  assert.match((thrown as Error).message, /Service Unavailable/);
+  const failure = jobUpdates.at(-1)!;
+  assert.equal(failure.status, 'PENDING');
+  assert.equal(failure.failureKind, 'TRANSIENT');
+  assert.equal(failure.deadLetteredAt, undefined);
+});
+
+test('a retryable failure on its last attempt is dead-lettered', async () => {
+  const thrown = await runFailingJob(503, 'Service Unavailable', 2);
+
+  // Rethrown as is; BullMQ has no attempts left to spend on it
+  assert.notEqual((thrown as Error).name, 'UnrecoverableError');
+  assert.match((thrown as Error).message, /Service Unavailable/);
+  const failure = jobUpdates.at(-1)!;
+  assert.equal(failure.status, 'FAILED');
+  assert.equal(failure.failureKind, 'TRANSIENT');
+  assert.ok(failure.deadLetteredAt instanceof Date);
+});
+
+test('a permanent failure is dead-lettered on its first attempt', async () => {
+  const revoked = '{"error":{"message":"Error validating access token","type":"OAuthException","code":190}}';
+
+  const thrown = await runFailingJob(400, revoked, 0);
+
+  // Unrecoverable, so BullMQ does not retry it
+  assert.equal((thrown as Error).name, 'UnrecoverableError');
+  assert.match((thrown as Error).message, /^AUTH_EXPIRED: /);
+  const failure = jobUpdates.at(-1)!;
+  assert.equal(failure.status, 'FAILED');
+  assert.equal(failure.failureKind, 'AUTH_EXPIRED');
+  assert.ok(failure.deadLetteredAt instanceof Date);
+});
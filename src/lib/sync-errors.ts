@@ -0,0 +1,107 @@
+import { Prisma, SyncFailureKind } from '@prisma/client';
+
+/**
+ * An error whose failure kind is known where it is thrown, optionally with
+ * how long the provider asked us to wait before retrying
+ */
+export class SyncError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: SyncFailureKind,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+// Message patterns for errors raised without a kind, checked in order
+const MESSAGE_PATTERNS: Array<[SyncFailureKind, RegExp]> = [
+  ['AUTH_EXPIRED', /invalid_grant|unauthenticated|unauthori[sz]ed|token (has )?expired|refresh (access )?token|\b401\b|OAuthException/i],
+  ['QUOTA', /rate limit|quota|resource_exhausted|too many requests|\b429\b/i],
+  ['TRANSIENT', /fetch failed|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|socket hang up|network|timeout|\b50[0234]\b|unavailable|deadline_exceeded/i],
+  ['BAD_QUERY', /invalid_argument|query_error|invalid query|unrecognized field|\b400\b/i],
+];
+
+/**
+ * Classify why a sync failed
+ */
+export function classifySyncError(error: unknown): SyncFailureKind {
+  if (error instanceof SyncError) {
+    return error.kind;
+  }
+
+  // Rows the warehouse rejected (constraint violations, overflow, bad values)
+  if (
+    error instanceof Prisma.PrismaClientKnownRequestError ||
+    error instanceof Prisma.PrismaClientValidationError
+  ) {
+    return 'DATA_ERROR';
+  }
+
+  const message = error instanceof Error
+    ? `${error.message} ${(error.cause as { code?: string } | undefined)?.code ?? ''}`
+    : String(error);
+
+  for (const [kind, pattern] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return kind;
+  }
+
+  return 'UNKNOWN';
+}
+
+// Responses that mean the provider rejected the stored credentials: Google's
+// invalid_grant, any 401, Meta's OAuthException code 190 and TikTok's expired
+// or revoked token codes
+const CREDENTIAL_REJECTED_PATTERN = /invalid_grant|\b401\b|"code":\s*190\b|TikTok Ads API error 401(02|05)\b/i;
+
+/**
+ * Whether an auth failure means the credentials themselves were rejected, as
+ * opposed to a provider outage or rate limit while using them
+ */
+export function isCredentialRejection(error: unknown): boolean {
+  if (classifySyncError(error) !== 'AUTH_EXPIRED') {
+    return false;
+  }
+
+  const status = (error as { response?: { status?: number } } | null)?.response?.status;
+  const message = error instanceof Error ? error.message : String(error);
+
+  return status === 401 || CREDENTIAL_REJECTED_PATTERN.test(message);
+}
+
+/**
+ * Whether retrying the same job later can succeed without intervention
+ */
+export function isRetryableFailure(kind: SyncFailureKind): boolean {
+  return kind === 'TRANSIENT' || kind === 'QUOTA' || kind === 'UNKNOWN';
+}
+
+// Backoff type set on sync jobs so BullMQ defers to syncBackoffStrategy
+export const SYNC_BACKOFF_TYPE = 'sync-failure';
+
+// First retry delay by failure kind, doubled on each further attempt
+const BASE_RETRY_DELAY_MS: Partial<Record<SyncFailureKind, number>> = {
+  QUOTA: 60 * 1000,
+  TRANSIENT: 5 * 1000,
+  UNKNOWN: 5 * 1000,
+};
+
+/**
+ * BullMQ backoff strategy for sync jobs. Waits out a provider's retry-after,
+ * otherwise backs off exponentially from a per-kind base delay; returns -1
+ * (fail now) for failures a retry cannot fix.
+ */
+export function syncBackoffStrategy(attemptsMade: number, _type?: string, error?: Error): number {
+  const kind = classifySyncError(error);
+
+  if (!isRetryableFailure(kind)) {
+    return -1;
+  }
+
+  if (error instanceof SyncError && error.retryAfterMs) {
+    return error.retryAfterMs;
+  }
+
+  return Math.round(Math.pow(2, Math.max(attemptsMade - 1, 0)) * (BASE_RETRY_DELAY_MS[kind] ?? 5000));
+}
@@ -0,0 +1,110 @@
+import { QueueEvents } from 'bullmq';
+import { createBullConnection } from './redis';
+import { QUEUE_NAMES, getSyncQueue } from './queue';
+
+/**
+ * A sync queue event, addressed by SyncJob ID (which is also the BullMQ job ID)
+ */
+export interface SyncEvent {
+  type: 'active' | 'progress' | 'completed' | 'failed';
+  jobId: string;
+  accountId: string;
+  parentJobId?: string; // Set for backfill chunks
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  progress?: number;
+  rowsProcessed?: number;
+  error?: string;
+}
+
+type Listener = (event: SyncEvent) => void;
+
+// Listeners keyed by organization ID
+const subscribers = new Map<string, Set<Listener>>();
+
+// One QueueEvents stream per API process, shared by every subscriber
+let queueEvents: QueueEvents | null = null;
+
+function ensureListening(): void {
+  if (queueEvents) return;
+
+  queueEvents = new QueueEvents(QUEUE_NAMES.SYNC, { connection: createBullConnection() });
+
+  queueEvents.on('active', ({ jobId }) => {
+    dispatch(jobId, { type: 'active', status: 'RUNNING' });
+  });
+
+  queueEvents.on('progress', ({ jobId, data }) => {
+    dispatch(jobId, { type: 'progress', status: 'RUNNING', progress: Number(data) });
+  });
+
+  queueEvents.on('completed', ({ jobId, returnvalue }) => {
+    const result = (typeof returnvalue === 'string' ? safeParse(returnvalue) : returnvalue) as
+      | { rowsProcessed?: number; cancelled?: boolean }
+      | null;
+
+    dispatch(jobId, {
+      type: 'completed',
+      status: result?.cancelled ? 'CANCELLED' : 'COMPLETED',
+      progress: 100,
+      rowsProcessed: result?.rowsProcessed,
+    });
+  });
+
+  queueEvents.on('failed', ({ jobId, failedReason }) => {
+    dispatch(jobId, { type: 'failed', status: 'FAILED', error: failedReason });
+  });
+
+  queueEvents.on('error', (err) => {
+    console.error('Sync queue events error:', err);
+  });
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the job's organization and deliver the event to its subscribers
+ */
+async function dispatch(jobId: string, event: Omit<SyncEvent, 'jobId' | 'accountId' | 'parentJobId'>): Promise<void> {
+  if (subscribers.size === 0) return;
+
+  try {
+    const job = await getSyncQueue().getJob(jobId);
+    if (!job) return;
+
+    const listeners = subscribers.get(job.data.organizationId);
+    if (!listeners) return;
+
+    for (const listener of listeners) {
+      listener({ ...event, jobId, accountId: job.data.adAccountId, parentJobId: job.data.parentJobId });
+    }
+  } catch (error) {
+    console.error('Sync event dispatch error:', error);
+  }
+}
+
+/**
+ * Subscribe to sync events for an organization. Returns an unsubscribe function.
+ */
+export function subscribeToSyncEvents(organizationId: string, listener: Listener): () => void {
+  ensureListening();
+
+  let listeners = subscribers.get(organizationId);
+  if (!listeners) {
+    listeners = new Set();
+    subscribers.set(organizationId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners!.delete(listener);
+    if (listeners!.size === 0) {
+      subscribers.delete(organizationId);
+    }
+  };
+}
@@ -0,0 +1,167 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import Redis from 'ioredis';
+import type { PrismaClient } from '@prisma/client';
+
+process.env.ENCRYPTION_KEY = 'test-encryption-key-of-32-bytes!';
+process.env.TIKTOK_APP_ID = 'app_1';
+process.env.TIKTOK_APP_SECRET = 'secret_1';
+
+const ACCESS_TOKEN = 'stored-token';
+const ADVERTISER_ID = '7100';
+
+// Every request the stub received, in order
+const requests: Array<{ method: string; path: string; query: URLSearchParams; token?: string; body?: any }> = [];
+
+/**
+ * Business API stand-in answering the endpoints the connector calls, with
+ * report results split over two pages
+ */
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url!, 'http://localhost');
+  let body = '';
+
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    requests.push({
+      method: req.method!,
+      path: url.pathname,
+      query: url.searchParams,
+      token: req.headers['access-token'] as string | undefined,
+      body: body ? JSON.parse(body) : undefined,
+    });
+
+    const reply = (data: unknown) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ code: 0, message: 'OK', data }));
+    };
+
+    switch (url.pathname) {
+      case '/oauth2/access_token/':
+        return reply({ access_token: 'new-token', advertiser_ids: [ADVERTISER_ID] });
+      case '/user/info/':
+        return reply({ core_user_id: 6900, email: 'owner@example.com' });
+      case '/oauth2/advertiser/get/':
+        return reply({ list: [{ advertiser_id: Number(ADVERTISER_ID), advertiser_name: 'Shop' }] });
+      case '/advertiser/info/':
+        return reply({
+          list: [{ advertiser_id: ADVERTISER_ID, name: 'Shop', currency: 'EUR', display_timezone: 'Europe/Berlin' }],
+        });
+      case '/report/integrated/get/': {
+        const page = Number(url.searchParams.get('page'));
+        const startDate = url.searchParams.get('start_date');
+        return reply({
+          list: [
+            {
+              dimensions: { ad_id: `ad_${page}`, stat_time_day: `${startDate} 00:00:00` },
+              metrics: {
+                campaign_id: '11',
+                campaign_name: 'Spring',
+                adgroup_id: '22',
+                adgroup_name: 'Broad',
+                impressions: '1000',
+                clicks: '25',
+                spend: '12.50',
+                conversion: '3',
+                total_purchase_value: '90.00',
+              },
+            },
+          ],
+          page_info: { page, total_page: 2 },
+        });
+      }
+      default:
+        res.statusCode = 404;
+        res.end('Not found');
+    }
+  });
+});
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  process.env.TIKTOK_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // The rate limiter's token bucket script always grants a token
+  mock.method(Redis.prototype, 'eval', async () => 1);
+
+  const { encrypt } = await import('./encryption');
+
+  global.prisma = {
+    connection: {
+      findUnique: async () => ({
+        id: 'conn_1',
+        accessTokenEnc: encrypt(ACCESS_TOKEN),
+        refreshTokenEnc: encrypt(ACCESS_TOKEN),
+        accessTokenExpiry: new Date(Date.now() + 24 * 3600 * 1000),
+      }),
+    },
+  } as unknown as PrismaClient;
+});
+
+after(() => {
+  mock.restoreAll();
+  server.close();
+});
+
+test('exchanges an auth code and identifies the login', async () => {
+  const { exchangeCodeForTokens } = await import('./tiktok-ads');
+
+  const tokens = await exchangeCodeForTokens('code_1');
+
+  assert.equal(tokens.accessToken, 'new-token');
+  assert.equal(tokens.refreshToken, 'new-token');
+  assert.equal(tokens.providerAccountId, '6900');
+  assert.equal(tokens.email, 'owner@example.com');
+
+  const exchange = requests.find((r) => r.path === '/oauth2/access_token/');
+  assert.deepEqual(exchange?.body, { app_id: 'app_1', secret: 'secret_1', auth_code: 'code_1' });
+});
+
+test('lists authorised advertisers with their currency and timezone', async () => {
+  const { listAdvertisers } = await import('./tiktok-ads');
+
+  const accounts = await listAdvertisers('conn_1');
+
+  assert.deepEqual(accounts, [
+    { externalId: ADVERTISER_ID, name: 'Shop', currency: 'EUR', timezone: 'Europe/Berlin' },
+  ]);
+  assert.equal(requests.find((r) => r.path === '/oauth2/advertiser/get/')?.token, ACCESS_TOKEN);
+});
+
+test('follows report pages, splits long ranges and maps rows', async () => {
+  const { fetchReport } = await import('./tiktok-ads');
+  requests.length = 0;
+
+  const rows = await fetchReport('conn_1', ADVERTISER_ID, 'ad', '2024-01-01', '2024-02-15');
+
+  const reportRequests = requests.filter((r) => r.path === '/report/integrated/get/');
+  assert.deepEqual(
+    reportRequests.map((r) => [r.query.get('start_date'), r.query.get('end_date'), r.query.get('page')]),
+    [
+      ['2024-01-01', '2024-01-30', '1'],
+      ['2024-01-01', '2024-01-30', '2'],
+      ['2024-01-31', '2024-02-15', '1'],
+      ['2024-01-31', '2024-02-15', '2'],
+    ]
+  );
+  assert.equal(reportRequests[0].query.get('data_level'), 'AUCTION_AD');
+
+  assert.equal(rows.length, 4);
+  assert.deepEqual(rows[0], {
+    date: '2024-01-01',
+    accountId: ADVERTISER_ID,
+    campaignId: '11',
+    campaignName: 'Spring',
+    adGroupId: '22',
+    adGroupName: 'Broad',
+    adId: 'ad_1',
+    impressions: 1000,
+    clicks: 25,
+    cost: 12.5,
+    conversions: 3,
+    conversionValue: 90,
+  });
+  assert.deepEqual(rows.map((r) => r.date), ['2024-01-01', '2024-01-01', '2024-01-31', '2024-01-31']);
+});
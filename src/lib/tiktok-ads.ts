@@ -0,0 +1,382 @@
+import { splitDateRange } from './dates';
+import { env } from './env';
+import { tiktokAdsRateLimiter } from './redis';
+import { getValidConnectionToken } from './tokens';
+import type {
+  CampaignDimension,
+  AdGroupDimension,
+  AdDimension,
+  EntityStatus,
+  InsightsRow,
+  ProviderAccount,
+} from './connectors';
+
+export const TIKTOK_ADS_SCOPES = ['ads_management', 'reporting'];
+
+// TikTok Business access tokens do not expire unless the advertiser revokes
+// them, so connections are given a long nominal expiry.
+const TOKEN_LIFETIME_MS = 365 * 24 * 3600 * 1000;
+
+const PAGE_SIZE = 1000;
+
+function getApiBaseUrl(): string {
+  // Overridable so the connector can be exercised against a local HTTP stub
+  return env.TIKTOK_API_BASE_URL;
+}
+
+function getAppCredentials(): { appId: string; secret: string; redirectUri: string } {
+  if (!env.TIKTOK_APP_ID || !env.TIKTOK_APP_SECRET) {
+    throw new Error('TIKTOK_APP_ID and TIKTOK_APP_SECRET are required');
+  }
+
+  return {
+    appId: env.TIKTOK_APP_ID,
+    secret: env.TIKTOK_APP_SECRET,
+    redirectUri: env.TIKTOK_REDIRECT_URI,
+  };
+}
+
+/**
+ * Parse a Business API response envelope, throwing on non-zero codes
+ */
+async function parseResponse(response: Response): Promise<any> {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`TikTok Ads API error: ${error}`);
+  }
+
+  const body = await response.json();
+
+  if (body.code !== 0) {
+    throw new Error(`TikTok Ads API error ${body.code}: ${body.message}`);
+  }
+
+  return body.data;
+}
+
+/**
+ * Generate OAuth authorization URL for TikTok Ads
+ */
+export function generateAuthUrl(state: string): string {
+  const { appId, redirectUri } = getAppCredentials();
+  const params = new URLSearchParams({
+    app_id: appId,
+    redirect_uri: redirectUri,
+    state,
+  });
+
+  return `https://business-api.tiktok.com/portal/auth?${params.toString()}`;
+}
+
+/**
+ * Exchange authorization code for tokens
+ *
+ * TikTok issues no refresh token; the access token is stored in both slots.
+ * The authorizing user's core_user_id identifies the login across reconnects.
+ */
+export async function exchangeCodeForTokens(code: string): Promise<{
+  accessToken: string;
+  refreshToken: string;
+  expiryDate: number;
+  email?: string;
+  providerAccountId?: string;
+}> {
+  const { appId, secret } = getAppCredentials();
+
+  const response = await fetch(`${getApiBaseUrl()}/oauth2/access_token/`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ app_id: appId, secret, auth_code: code }),
+  });
+
+  const data = await parseResponse(response);
+
+  if (!data?.access_token) {
+    throw new Error('Failed to get tokens from TikTok');
+  }
+
+  // Get user info
+  const userResponse = await fetch(`${getApiBaseUrl()}/user/info/`, {
+    headers: { 'Access-Token': data.access_token },
+  });
+  const user = await parseResponse(userResponse);
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.access_token,
+    expiryDate: Date.now() + TOKEN_LIFETIME_MS,
+    email: user?.email || undefined,
+    providerAccountId: user?.core_user_id ? String(user.core_user_id) : undefined,
+  };
+}
+
+/**
+ * Re-validate a long-lived access token
+ */
+export async function refreshAccessToken(refreshToken: string): Promise<{
+  accessToken: string;
+  expiryDate: number;
+}> {
+  // There is no refresh grant; confirm the token is still authorised instead
+  await listAuthorizedAdvertisers(refreshToken);
+
+  return {
+    accessToken: refreshToken,
+    expiryDate: Date.now() + TOKEN_LIFETIME_MS,
+  };
+}
+
+/**
+ * Check that an access token is still authorised
+ */
+export async function validateAccessToken(accessToken: string): Promise<void> {
+  await listAuthorizedAdvertisers(accessToken);
+}
+
+/**
+ * Get valid access token for a connection, refreshing if necessary
+ */
+export async function getValidAccessToken(connectionId: string): Promise<string> {
+  return getValidConnectionToken(connectionId, refreshAccessToken);
+}
+
+async function listAuthorizedAdvertisers(
+  accessToken: string
+): Promise<Array<{ advertiser_id: string; advertiser_name: string }>> {
+  const { appId, secret } = getAppCredentials();
+  const params = new URLSearchParams({ app_id: appId, secret });
+
+  const response = await fetch(`${getApiBaseUrl()}/oauth2/advertiser/get/?${params.toString()}`, {
+    headers: { 'Access-Token': accessToken },
+  });
+
+  const data = await parseResponse(response);
+  return data?.list || [];
+}
+
+/**
+ * Make a Business API GET request, following page-number pagination
+ */
+export async function queryTikTokAds(
+  connectionId: string,
+  path: string,
+  params: Record<string, unknown>
+): Promise<any[]> {
+  const accessToken = await getValidAccessToken(connectionId);
+  const results: any[] = [];
+
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    // Rate limit check
+    const canProceed = await tiktokAdsRateLimiter.waitForToken(1, 30000);
+    if (!canProceed) {
+      throw new Error('Rate limit exceeded. Please try again later.');
+    }
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...params, page, page_size: PAGE_SIZE })) {
+      query.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    const response = await fetch(`${getApiBaseUrl()}/${path}?${query.toString()}`, {
+      headers: { 'Access-Token': accessToken },
+    });
+
+    const data = await parseResponse(response);
+    results.push(...(data?.list || []));
+    totalPages = data?.page_info?.total_page || 1;
+    page++;
+  } while (page <= totalPages);
+
+  return results;
+}
+
+/**
+ * Get list of advertisers the connection is authorised for
+ */
+export async function listAdvertisers(connectionId: string): Promise<ProviderAccount[]> {
+  const accessToken = await getValidAccessToken(connectionId);
+  const advertisers = await listAuthorizedAdvertisers(accessToken);
+
+  if (advertisers.length === 0) {
+    return [];
+  }
+
+  // Look up currency and timezone for each advertiser
+  const response = await fetch(
+    `${getApiBaseUrl()}/advertiser/info/?${new URLSearchParams({
+      advertiser_ids: JSON.stringify(advertisers.map((a) => a.advertiser_id)),
+      fields: JSON.stringify(['advertiser_id', 'name', 'currency', 'display_timezone']),
+    }).toString()}`,
+    { headers: { 'Access-Token': accessToken } }
+  );
+
+  const info = await parseResponse(response);
+  const infoMap = new Map<string, any>(
+    (info?.list || []).map((a: any) => [String(a.advertiser_id), a])
+  );
+
+  return advertisers.map((advertiser) => {
+    const details = infoMap.get(String(advertiser.advertiser_id));
+    return {
+      externalId: String(advertiser.advertiser_id),
+      name: advertiser.advertiser_name || details?.name || `Advertiser ${advertiser.advertiser_id}`,
+      currency: details?.currency || 'USD',
+      timezone: details?.display_timezone || 'America/Los_Angeles',
+    };
+  });
+}
+
+/**
+ * Fetch campaign metadata
+ */
+export async function fetchCampaigns(
+  connectionId: string,
+  advertiserId: string
+): Promise<CampaignDimension[]> {
+  const campaigns = await queryTikTokAds(connectionId, 'campaign/get/', {
+    advertiser_id: advertiserId,
+  });
+
+  return campaigns.map((campaign) => ({
+    externalId: String(campaign.campaign_id),
+    name: campaign.campaign_name,
+    status: mapStatus(campaign.operation_status),
+    type: campaign.objective_type || null,
+    budget: campaign.budget_mode !== 'BUDGET_MODE_INFINITE' && campaign.budget
+      ? Number(campaign.budget)
+      : null,
+    budgetType: campaign.budget_mode === 'BUDGET_MODE_DAY'
+      ? 'DAILY'
+      : campaign.budget_mode === 'BUDGET_MODE_TOTAL' ? 'LIFETIME' : null,
+    startDate: null,
+    endDate: null,
+  }));
+}
+
+/**
+ * Fetch ad group metadata
+ */
+export async function fetchAdGroups(
+  connectionId: string,
+  advertiserId: string
+): Promise<AdGroupDimension[]> {
+  const adGroups = await queryTikTokAds(connectionId, 'adgroup/get/', {
+    advertiser_id: advertiserId,
+  });
+
+  return adGroups.map((adGroup) => ({
+    externalId: String(adGroup.adgroup_id),
+    campaignExternalId: String(adGroup.campaign_id),
+    name: adGroup.adgroup_name,
+    status: mapStatus(adGroup.operation_status),
+  }));
+}
+
+/**
+ * Fetch ad metadata
+ */
+export async function fetchAds(
+  connectionId: string,
+  advertiserId: string
+): Promise<AdDimension[]> {
+  const ads = await queryTikTokAds(connectionId, 'ad/get/', {
+    advertiser_id: advertiserId,
+  });
+
+  return ads.map((ad) => ({
+    externalId: String(ad.ad_id),
+    campaignExternalId: String(ad.campaign_id),
+    adGroupExternalId: String(ad.adgroup_id),
+    name: ad.ad_name || null,
+    type: ad.ad_format || null,
+    status: mapStatus(ad.operation_status),
+    headline: ad.display_name || null,
+    description: ad.ad_text || null,
+    finalUrl: ad.landing_page_url || null,
+  }));
+}
+
+// Longest date range a daily report request may cover
+const REPORT_MAX_DAYS = 30;
+
+const REPORT_LEVELS = {
+  campaign: { dataLevel: 'AUCTION_CAMPAIGN', idDimension: 'campaign_id' },
+  adgroup: { dataLevel: 'AUCTION_ADGROUP', idDimension: 'adgroup_id' },
+  ad: { dataLevel: 'AUCTION_AD', idDimension: 'ad_id' },
+} as const;
+
+/**
+ * Fetch daily report rows at campaign, ad group or ad level, one request per
+ * 30-day slice of the range
+ */
+export async function fetchReport(
+  connectionId: string,
+  advertiserId: string,
+  level: keyof typeof REPORT_LEVELS,
+  startDate: string,
+  endDate: string
+): Promise<InsightsRow[]> {
+  const { dataLevel, idDimension } = REPORT_LEVELS[level];
+
+  // Attribute metrics (ids and names of parents) are only available at or
+  // below the level they describe
+  const attributeMetrics = ['campaign_id', 'campaign_name'];
+  if (level !== 'campaign') attributeMetrics.push('adgroup_id', 'adgroup_name');
+
+  const rows: any[] = [];
+
+  for (const { from, to } of splitDateRange(startDate, endDate, REPORT_MAX_DAYS)) {
+    rows.push(...await queryTikTokAds(connectionId, 'report/integrated/get/', {
+      advertiser_id: advertiserId,
+      report_type: 'BASIC',
+      data_level: dataLevel,
+      dimensions: [idDimension, 'stat_time_day'],
+      metrics: [
+        ...attributeMetrics.filter((m) => m !== idDimension),
+        'impressions',
+        'clicks',
+        'spend',
+        'conversion',
+        'total_purchase_value',
+      ],
+      start_date: from,
+      end_date: to,
+    }));
+  }
+
+  return rows.map((row) => {
+    const values = { ...row.metrics, ...row.dimensions };
+
+    return {
+      // stat_time_day is "YYYY-MM-DD HH:mm:ss"
+      date: String(values.stat_time_day).split(' ')[0],
+      accountId: advertiserId,
+      campaignId: String(values.campaign_id),
+      campaignName: values.campaign_name,
+      adGroupId: level !== 'campaign' ? String(values.adgroup_id) : undefined,
+      adGroupName: level !== 'campaign' ? values.adgroup_name : undefined,
+      adId: level === 'ad' ? String(values.ad_id) : undefined,
+      impressions: parseInt(values.impressions || '0'),
+      clicks: parseInt(values.clicks || '0'),
+      cost: parseFloat(values.spend || '0'),
+      conversions: parseFloat(values.conversion || '0'),
+      conversionValue: parseFloat(values.total_purchase_value || '0'),
+    };
+  });
+}
+
+function mapStatus(status: string): EntityStatus {
+  switch (status) {
+    case 'ENABLE':
+      return 'ENABLED';
+    case 'DISABLE':
+      return 'PAUSED';
+    case 'DELETE':
+      return 'REMOVED';
+    default:
+      return 'UNKNOWN';
+  }
+}
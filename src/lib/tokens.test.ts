@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PrismaClient } from '@prisma/client';
+
+process.env.ENCRYPTION_KEY = 'test-encryption-key-of-32-bytes!';
+
+// Status changes the token code asked for, by connection
+const statusUpdates: Array<{ id: string; status: string }> = [];
+
+global.prisma = {
+  connection: {
+    findUnique: async ({ where }: { where: { id: string } }) => {
+      const { encrypt } = await import('./encryption');
+      return {
+        id: where.id,
+        accessTokenEnc: encrypt('stale-access-token'),
+        refreshTokenEnc: encrypt('refresh-token'),
+        accessTokenExpiry: new Date(Date.now() - 60 * 1000),
+      };
+    },
+    updateMany: async ({ where, data }: { where: { id: string }; data: { status: string } }) => {
+      statusUpdates.push({ id: where.id, status: data.status });
+      // Already in that status, so no notification is sent
+      return { count: 0 };
+    },
+  },
+} as unknown as PrismaClient;
+
+test('a provider outage during refresh is rethrown and leaves the connection alone', async () => {
+  const { getValidConnectionToken } = await import('./tokens');
+  const { classifySyncError } = await import('./sync-errors');
+  const outage = new Error('Meta token exchange failed: 503 Service Unavailable');
+
+  await assert.rejects(
+    getValidConnectionToken('conn_outage', async () => {
+      throw outage;
+    }),
+    (error) => error === outage && classifySyncError(error) === 'TRANSIENT'
+  );
+
+  assert.deepEqual(statusUpdates.filter((u) => u.id === 'conn_outage'), []);
+});
+
+test('a rejected refresh token expires the connection', async () => {
+  const { getValidConnectionToken } = await import('./tokens');
+
+  await assert.rejects(
+    getValidConnectionToken('conn_revoked', async () => {
+      throw new Error('invalid_grant');
+    }),
+    { name: 'SyncError', kind: 'AUTH_EXPIRED' }
+  );
+
+  assert.deepEqual(statusUpdates.filter((u) => u.id === 'conn_revoked'), [
+    { id: 'conn_revoked', status: 'EXPIRED' },
+  ]);
+});
+
+test('Meta rate limits reported as OAuthException are not treated as revoked', async () => {
+  const { isCredentialRejection } = await import('./sync-errors');
+
+  const rateLimited = new Error(
+    'Meta token exchange failed: {"error":{"message":"(#4) Application request limit reached","type":"OAuthException","code":4}}'
+  );
+  const revoked = new Error(
+    'Meta token exchange failed: {"error":{"message":"Error validating access token","type":"OAuthException","code":190}}'
+  );
+
+  assert.equal(isCredentialRejection(rateLimited), false);
+  assert.equal(isCredentialRejection(revoked), true);
+});
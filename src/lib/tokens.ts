@@ -0,0 +1,115 @@
+import type { Connection } from '@prisma/client';
+import { decrypt, encrypt } from './encryption';
+import prisma from './prisma';
+import { notifyConnectionUnhealthy } from './notifications';
+import { SyncError, isCredentialRejection } from './sync-errors';
+
+export type TokenRefresher = (refreshToken: string) => Promise<{
+  accessToken: string;
+  expiryDate: number;
+  refreshToken?: string;
+}>;
+
+/**
+ * Move a connection to EXPIRED or ERROR, notifying the organization's admins
+ * when its status changes. Disconnected connections are left alone.
+ */
+export async function markConnectionUnhealthy(
+  connectionId: string,
+  status: 'EXPIRED' | 'ERROR',
+  message: string
+): Promise<void> {
+  const { count } = await prisma.connection.updateMany({
+    where: { id: connectionId, status: { notIn: [status, 'DISCONNECTED'] } },
+    data: {
+      status,
+      errorMessage: message,
+    },
+  });
+
+  if (count > 0) {
+    const connection = await prisma.connection.findUniqueOrThrow({
+      where: { id: connectionId },
+    });
+
+    await notifyConnectionUnhealthy(connection);
+  }
+}
+
+/**
+ * Mark a connection as needing to be reconnected
+ */
+export async function markConnectionExpired(connectionId: string, message: string): Promise<void> {
+  await markConnectionUnhealthy(connectionId, 'EXPIRED', message);
+}
+
+/**
+ * Refresh a connection's access token with the provider's refresher and store
+ * it, along with the rotated refresh token for providers that return one.
+ * Returns the new access token.
+ */
+export async function refreshConnectionToken(
+  connection: Connection,
+  refresh: TokenRefresher
+): Promise<string> {
+  const { accessToken, expiryDate, refreshToken } = await refresh(decrypt(connection.refreshTokenEnc));
+
+  await prisma.connection.update({
+    where: { id: connection.id },
+    data: {
+      accessTokenEnc: encrypt(accessToken),
+      ...(refreshToken && { refreshTokenEnc: encrypt(refreshToken) }),
+      accessTokenExpiry: new Date(expiryDate),
+      lastRefreshedAt: new Date(),
+      status: 'ACTIVE',
+      consecutiveFailures: 0,
+      errorMessage: null,
+    },
+  });
+
+  return accessToken;
+}
+
+/**
+ * Get valid access token for a connection, refreshing it with the
+ * provider's refresher if necessary
+ */
+export async function getValidConnectionToken(
+  connectionId: string,
+  refresh: TokenRefresher
+): Promise<string> {
+  const connection = await prisma.connection.findUnique({
+    where: { id: connectionId },
+  });
+
+  if (!connection) {
+    throw new Error('Connection not found');
+  }
+
+  const accessToken = decrypt(connection.accessTokenEnc);
+
+  // Check if token needs refresh (5 min buffer)
+  const expiryBuffer = 5 * 60 * 1000;
+  const isExpired =
+    !connection.accessTokenExpiry ||
+    connection.accessTokenExpiry.getTime() < Date.now() + expiryBuffer;
+
+  if (isExpired) {
+    try {
+      return await refreshConnectionToken(connection, refresh);
+    } catch (error) {
+      // Outages and rate limits are retried by the job's backoff; only a
+      // rejected credential needs the organization to reconnect
+      if (!isCredentialRejection(error)) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : 'Token refresh failed';
+
+      await markConnectionExpired(connectionId, message);
+      throw new SyncError(message, 'AUTH_EXPIRED');
+    }
+  }
+
+  return accessToken;
+}
@@ -71,7 +71,11 @@ export function getDateRangePresets() {
 }
 
 export function formatDateForAPI(date: Date): string {
-  return date.toISOString().split('T')[0];
+  // The calendar day in the user's timezone; toISOString would give the UTC day
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
 }
 
 export function getComparisonDates(start: Date, end: Date) {
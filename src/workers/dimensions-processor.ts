@@ -1,7 +1,7 @@
 import { Job } from 'bullmq';
 import prisma from '../lib/prisma';
 import { DimensionSyncJobData } from '../lib/queue';
-import { queryGoogleAds } from '../lib/google-ads';
+import { getConnector } from '../lib/connectors';
 
 interface DimensionSyncResult {
   campaigns: number;
@@ -16,60 +16,45 @@ export async function processDimensionsJob(
   job: Job<DimensionSyncJobData>
 ): Promise<DimensionSyncResult> {
   const { adAccountId, connectionId, customerId, provider } = job.data;
+  const connector = getConnector(provider);
 
   let campaignsUpdated = 0;
   let adGroupsUpdated = 0;
   let adsUpdated = 0;
 
   try {
-    // Sync campaigns
-    const campaignQuery = `
-      SELECT
-        campaign.id,
-        campaign.name,
-        campaign.status,
-        campaign.advertising_channel_type,
-        campaign_budget.amount_micros,
-        campaign.start_date,
-        campaign.end_date
-      FROM campaign
-      WHERE campaign.status != 'REMOVED'
-    `;
+    const { currency } = await prisma.adAccount.findUniqueOrThrow({
+      where: { id: adAccountId },
+      select: { currency: true },
+    });
 
-    const campaigns = await queryGoogleAds(connectionId, customerId, campaignQuery);
+    // Sync campaigns
+    const campaigns = await connector.fetchCampaigns(connectionId, customerId, currency);
+
+    for (const campaign of campaigns) {
+      const fields = {
+        name: campaign.name,
+        status: campaign.status,
+        type: campaign.type,
+        budget: campaign.budget,
+        budgetType: campaign.budgetType,
+        startDate: campaign.startDate ? new Date(campaign.startDate) : null,
+        endDate: campaign.endDate ? new Date(campaign.endDate) : null,
+      };
 
-    for (const row of campaigns) {
-      const campaign = row.campaign;
-      
       await prisma.campaign.upsert({
         where: {
           adAccountId_externalId: {
             adAccountId,
-            externalId: campaign.id,
+            externalId: campaign.externalId,
           },
         },
         create: {
           adAccountId,
-          externalId: campaign.id,
-          name: campaign.name,
-          status: mapCampaignStatus(campaign.status),
-          type: campaign.advertisingChannelType,
-          budget: row.campaignBudget?.amountMicros
-            ? row.campaignBudget.amountMicros / 1000000
-            : null,
-          startDate: campaign.startDate ? new Date(campaign.startDate) : null,
-          endDate: campaign.endDate ? new Date(campaign.endDate) : null,
-        },
-        update: {
-          name: campaign.name,
-          status: mapCampaignStatus(campaign.status),
-          type: campaign.advertisingChannelType,
-          budget: row.campaignBudget?.amountMicros
-            ? row.campaignBudget.amountMicros / 1000000
-            : null,
-          startDate: campaign.startDate ? new Date(campaign.startDate) : null,
-          endDate: campaign.endDate ? new Date(campaign.endDate) : null,
+          externalId: campaign.externalId,
+          ...fields,
         },
+        update: fields,
       });
 
       campaignsUpdated++;
@@ -78,28 +63,15 @@ export async function processDimensionsJob(
     await job.updateProgress(33);
 
     // Sync ad groups
-    const adGroupQuery = `
-      SELECT
-        campaign.id,
-        ad_group.id,
-        ad_group.name,
-        ad_group.status
-      FROM ad_group
-      WHERE ad_group.status != 'REMOVED'
-    `;
-
-    const adGroups = await queryGoogleAds(connectionId, customerId, adGroupQuery);
-
-    for (const row of adGroups) {
-      const campaignExtId = row.campaign.id;
-      const adGroup = row.adGroup;
+    const adGroups = await connector.fetchAdGroups(connectionId, customerId);
 
+    for (const adGroup of adGroups) {
       // Get campaign internal ID
       const campaign = await prisma.campaign.findUnique({
         where: {
           adAccountId_externalId: {
             adAccountId,
-            externalId: campaignExtId,
+            externalId: adGroup.campaignExternalId,
           },
         },
       });
@@ -110,19 +82,19 @@ export async function processDimensionsJob(
         where: {
           adAccountId_externalId: {
             adAccountId,
-            externalId: adGroup.id,
+            externalId: adGroup.externalId,
           },
         },
         create: {
           adAccountId,
           campaignId: campaign.id,
-          externalId: adGroup.id,
+          externalId: adGroup.externalId,
           name: adGroup.name,
-          status: mapAdGroupStatus(adGroup.status),
+          status: adGroup.status,
         },
         update: {
           name: adGroup.name,
-          status: mapAdGroupStatus(adGroup.status),
+          status: adGroup.status,
           campaignId: campaign.id,
         },
       });
@@ -133,34 +105,16 @@ export async function processDimensionsJob(
     await job.updateProgress(66);
 
     // Sync ads
-    const adsQuery = `
-      SELECT
-        campaign.id,
-        ad_group.id,
-        ad_group_ad.ad.id,
-        ad_group_ad.ad.name,
-        ad_group_ad.ad.type,
-        ad_group_ad.status,
-        ad_group_ad.ad.final_urls
-      FROM ad_group_ad
-      WHERE ad_group_ad.status != 'REMOVED'
-      LIMIT 1000
-    `;
-
     try {
-      const ads = await queryGoogleAds(connectionId, customerId, adsQuery);
-
-      for (const row of ads) {
-        const campaignExtId = row.campaign.id;
-        const adGroupExtId = row.adGroup.id;
-        const ad = row.adGroupAd.ad;
+      const ads = await connector.fetchAds(connectionId, customerId);
 
+      for (const ad of ads) {
         // Get campaign and ad group internal IDs
         const campaign = await prisma.campaign.findUnique({
           where: {
             adAccountId_externalId: {
               adAccountId,
-              externalId: campaignExtId,
+              externalId: ad.campaignExternalId,
             },
           },
         });
@@ -169,35 +123,38 @@ export async function processDimensionsJob(
           where: {
             adAccountId_externalId: {
               adAccountId,
-              externalId: adGroupExtId,
+              externalId: ad.adGroupExternalId,
             },
           },
         });
 
         if (!campaign || !adGroup) continue;
 
+        const fields = {
+          name: ad.name,
+          type: ad.type,
+          status: ad.status,
+          headline: ad.headline ?? null,
+          description: ad.description ?? null,
+          finalUrl: ad.finalUrl,
+        };
+
         await prisma.ad.upsert({
           where: {
             adAccountId_externalId: {
               adAccountId,
-              externalId: ad.id,
+              externalId: ad.externalId,
             },
           },
           create: {
             adAccountId,
             campaignId: campaign.id,
             adGroupId: adGroup.id,
-            externalId: ad.id,
-            name: ad.name,
-            type: ad.type,
-            status: mapAdStatus(row.adGroupAd.status),
-            finalUrl: ad.finalUrls?.[0] || null,
+            externalId: ad.externalId,
+            ...fields,
           },
           update: {
-            name: ad.name,
-            type: ad.type,
-            status: mapAdStatus(row.adGroupAd.status),
-            finalUrl: ad.finalUrls?.[0] || null,
+            ...fields,
             campaignId: campaign.id,
             adGroupId: adGroup.id,
           },
@@ -222,43 +179,3 @@ export async function processDimensionsJob(
     throw error;
   }
 }
-
-function mapCampaignStatus(status: string): 'ENABLED' | 'PAUSED' | 'REMOVED' | 'UNKNOWN' {
-  switch (status) {
-    case 'ENABLED':
-      return 'ENABLED';
-    case 'PAUSED':
-      return 'PAUSED';
-    case 'REMOVED':
-      return 'REMOVED';
-    default:
-      return 'UNKNOWN';
-  }
-}
-
-function mapAdGroupStatus(status: string): 'ENABLED' | 'PAUSED' | 'REMOVED' | 'UNKNOWN' {
-  switch (status) {
-    case 'ENABLED':
-      return 'ENABLED';
-    case 'PAUSED':
-      return 'PAUSED';
-    case 'REMOVED':
-      return 'REMOVED';
-    default:
-      return 'UNKNOWN';
-  }
-}
-
-function mapAdStatus(status: string): 'ENABLED' | 'PAUSED' | 'REMOVED' | 'UNKNOWN' {
-  switch (status) {
-    case 'ENABLED':
-      return 'ENABLED';
-    case 'PAUSED':
-      return 'PAUSED';
-    case 'REMOVED':
-      return 'REMOVED';
-    default:
-      return 'UNKNOWN';
-  }
-}
-
@@ -0,0 +1,50 @@
+import { Job } from 'bullmq';
+import prisma from '../lib/prisma';
+import { HealthCheckJobData } from '../lib/queue';
+import { checkConnectionHealth, pruneHealthHistory } from '../lib/connection-health';
+
+interface HealthCheckResult {
+  checked: number;
+  healthy: number;
+  unhealthy: number;
+  pruned: number;
+}
+
+/**
+ * Process a health check job - validate every connection that may still be
+ * working. Expired and disconnected connections need the user to reconnect,
+ * so they are skipped; ERROR connections are checked so they can recover.
+ */
+export async function processHealthCheckJob(_job: Job<HealthCheckJobData>): Promise<HealthCheckResult> {
+  const connections = await prisma.connection.findMany({
+    where: { status: { in: ['ACTIVE', 'ERROR'] } },
+    orderBy: { lastCheckedAt: { sort: 'asc', nulls: 'first' } },
+  });
+
+  let healthy = 0;
+  let unhealthy = 0;
+
+  // One at a time so checks do not compete with syncs for provider quota
+  for (const connection of connections) {
+    try {
+      const check = await checkConnectionHealth(connection);
+      if (check.healthy) {
+        healthy++;
+      } else {
+        unhealthy++;
+      }
+    } catch (error) {
+      unhealthy++;
+      console.error(`Failed to check connection ${connection.id}:`, error);
+    }
+  }
+
+  const pruned = await pruneHealthHistory();
+
+  return {
+    checked: connections.length,
+    healthy,
+    unhealthy,
+    pruned,
+  };
+}
@@ -1,8 +1,18 @@
 import { Worker, Job } from 'bullmq';
 import { createBullConnection } from '../lib/redis';
-import { QUEUE_NAMES, SyncJobData, DimensionSyncJobData } from '../lib/queue';
+import {
+  QUEUE_NAMES,
+  SyncJobData,
+  DimensionSyncJobData,
+  ScheduledSyncJobData,
+  HealthCheckJobData,
+  scheduleConnectionHealthChecks,
+} from '../lib/queue';
 import { processSyncJob } from './sync-processor';
 import { processDimensionsJob } from './dimensions-processor';
+import { initializeScheduler, processScheduledSyncJob } from './scheduler';
+import { processHealthCheckJob } from './health-monitor';
+import { syncBackoffStrategy } from '../lib/sync-errors';
 
 console.log('Starting Ads Analytics Workers...');
 
@@ -20,6 +30,9 @@ const syncWorker = new Worker<SyncJobData>(
       max: 10,
       duration: 60000, // 10 jobs per minute max
     },
+    settings: {
+      backoffStrategy: syncBackoffStrategy,
+    },
   }
 );
 
@@ -60,12 +73,69 @@ dimensionsWorker.on('error', (err) => {
   console.error('Dimensions worker error:', err);
 });
 
+// Create scheduler worker (fans scheduled runs out to per-account sync jobs)
+const schedulerWorker = new Worker<ScheduledSyncJobData>(
+  QUEUE_NAMES.SCHEDULER,
+  async (job: Job<ScheduledSyncJobData>) => {
+    console.log(`Processing scheduled ${job.data.trigger} sync for organization ${job.data.organizationId}`);
+    return processScheduledSyncJob(job);
+  },
+  {
+    connection: createBullConnection(),
+    concurrency: 1,
+  }
+);
+
+schedulerWorker.on('failed', (job, err) => {
+  console.error(`Scheduler job failed: ${job?.id}`, err.message);
+});
+
+schedulerWorker.on('error', (err) => {
+  console.error('Scheduler worker error:', err);
+});
+
+// Create connection health worker (validates connections and refreshes tokens)
+const healthWorker = new Worker<HealthCheckJobData>(
+  QUEUE_NAMES.HEALTH,
+  async (job: Job<HealthCheckJobData>) => {
+    console.log('Checking connection health');
+    return processHealthCheckJob(job);
+  },
+  {
+    connection: createBullConnection(),
+    concurrency: 1,
+  }
+);
+
+healthWorker.on('completed', (job, result) => {
+  console.log(`Connection health check completed: ${result.healthy}/${result.checked} healthy`);
+});
+
+healthWorker.on('failed', (job, err) => {
+  console.error(`Connection health check failed: ${job?.id}`, err.message);
+});
+
+healthWorker.on('error', (err) => {
+  console.error('Health worker error:', err);
+});
+
+// Register repeatable scheduler jobs from organization settings
+initializeScheduler().catch((err) => {
+  console.error('Failed to initialize scheduler:', err);
+});
+
+scheduleConnectionHealthChecks().catch((err) => {
+  console.error('Failed to schedule connection health checks:', err);
+});
+
 // Graceful shutdown
 const shutdown = async () => {
   console.log('Shutting down workers...');
   await Promise.all([
     syncWorker.close(),
     dimensionsWorker.close(),
+    schedulerWorker.close(),
+    healthWorker.close(),
   ]);
   console.log('Workers stopped');
   process.exit(0);
@@ -77,4 +147,6 @@ process.on('SIGINT', shutdown);
 console.log('Workers started successfully');
 console.log(`   Sync worker: ${QUEUE_NAMES.SYNC}`);
 console.log(`   Dimensions worker: ${QUEUE_NAMES.DIMENSIONS}`);
+console.log(`   Scheduler worker: ${QUEUE_NAMES.SCHEDULER}`);
+console.log(`   Health worker: ${QUEUE_NAMES.HEALTH}`);
 
@@ -0,0 +1,236 @@
+import { MetricsGrain, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import type { InsightsRow, Provider } from '../lib/connectors';
+
+const BATCH_SIZE = 1000;
+
+interface DimensionIds {
+  campaigns: Map<string, string>;
+  adGroups: Map<string, string>;
+  ads: Map<string, string>;
+}
+
+/**
+ * Map external campaign/ad group/ad IDs to internal IDs, creating placeholder
+ * dimensions for any the dimensions sync has not seen yet
+ */
+export async function resolveDimensions(
+  adAccountId: string,
+  rows: InsightsRow[]
+): Promise<DimensionIds> {
+  const campaignNames = new Map<string, string>();
+  const adGroups = new Map<string, { campaignId: string; name?: string }>();
+  const ads = new Map<string, { campaignId: string; adGroupId: string }>();
+
+  for (const row of rows) {
+    campaignNames.set(row.campaignId, row.campaignName);
+    if (row.adGroupId) {
+      adGroups.set(row.adGroupId, { campaignId: row.campaignId, name: row.adGroupName });
+    }
+    if (row.adGroupId && row.adId) {
+      ads.set(row.adId, { campaignId: row.campaignId, adGroupId: row.adGroupId });
+    }
+  }
+
+  // Campaigns
+  await prisma.campaign.createMany({
+    data: Array.from(campaignNames, ([externalId, name]) => ({
+      adAccountId,
+      externalId,
+      name: name || 'Unknown Campaign',
+      status: 'UNKNOWN' as const,
+    })),
+    skipDuplicates: true,
+  });
+
+  const campaignIds = await mapExternalIds(
+    prisma.campaign.findMany({
+      where: { adAccountId, externalId: { in: Array.from(campaignNames.keys()) } },
+      select: { id: true, externalId: true },
+    })
+  );
+
+  // Ad groups
+  await prisma.adGroup.createMany({
+    data: Array.from(adGroups)
+      .filter(([, adGroup]) => campaignIds.has(adGroup.campaignId))
+      .map(([externalId, adGroup]) => ({
+        adAccountId,
+        campaignId: campaignIds.get(adGroup.campaignId)!,
+        externalId,
+        name: adGroup.name || 'Unknown Ad Group',
+        status: 'UNKNOWN' as const,
+      })),
+    skipDuplicates: true,
+  });
+
+  const adGroupIds = await mapExternalIds(
+    prisma.adGroup.findMany({
+      where: { adAccountId, externalId: { in: Array.from(adGroups.keys()) } },
+      select: { id: true, externalId: true },
+    })
+  );
+
+  // Ads
+  await prisma.ad.createMany({
+    data: Array.from(ads)
+      .filter(([, ad]) => campaignIds.has(ad.campaignId) && adGroupIds.has(ad.adGroupId))
+      .map(([externalId, ad]) => ({
+        adAccountId,
+        campaignId: campaignIds.get(ad.campaignId)!,
+        adGroupId: adGroupIds.get(ad.adGroupId)!,
+        externalId,
+        status: 'UNKNOWN' as const,
+      })),
+    skipDuplicates: true,
+  });
+
+  const adIds = await mapExternalIds(
+    prisma.ad.findMany({
+      where: { adAccountId, externalId: { in: Array.from(ads.keys()) } },
+      select: { id: true, externalId: true },
+    })
+  );
+
+  return { campaigns: campaignIds, adGroups: adGroupIds, ads: adIds };
+}
+
+async function mapExternalIds(
+  query: Promise<Array<{ id: string; externalId: string }>>
+): Promise<Map<string, string>> {
+  const records = await query;
+  return new Map(records.map((r) => [r.externalId, r.id]));
+}
+
+interface FactRow {
+  date: string;
+  grain: MetricsGrain;
+  campaignId: string;
+  adGroupId: string | null;
+  adId: string | null;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  conversionValue: number;
+}
+
+/**
+ * Convert fetched rows into fact rows keyed by internal dimension IDs,
+ * dropping rows whose dimensions could not be resolved
+ */
+export function toFactRows(rows: InsightsRow[], ids: DimensionIds): FactRow[] {
+  const facts = new Map<string, FactRow>();
+
+  for (const row of rows) {
+    const campaignId = ids.campaigns.get(row.campaignId);
+    const adGroupId = row.adGroupId ? ids.adGroups.get(row.adGroupId) : null;
+    const adId = row.adId ? ids.ads.get(row.adId) : null;
+
+    if (!campaignId || adGroupId === undefined || adId === undefined) continue;
+
+    // Keyed like the unique constraint so a batch never updates a row twice
+    const key = [row.date, campaignId, adGroupId, adId].join(':');
+    facts.set(key, {
+      date: row.date,
+      grain: adId ? 'AD' : adGroupId ? 'AD_GROUP' : 'CAMPAIGN',
+      campaignId,
+      adGroupId,
+      adId,
+      impressions: row.impressions,
+      clicks: row.clicks,
+      cost: row.cost,
+      conversions: row.conversions,
+      conversionValue: row.conversionValue,
+    });
+  }
+
+  return Array.from(facts.values());
+}
+
+export interface WriteResult {
+  written: number;
+  // Rows inserted or whose values actually differed from what was stored
+  changed: number;
+  changedDates: string[];
+}
+
+/**
+ * Bulk upsert fact rows in batches inside a single transaction.
+ *
+ * Relies on the metrics_fact unique index being NULLS NOT DISTINCT
+ * (prisma/sql/metrics-fact.sql) so campaign and ad group
+ * level rows conflict instead of being inserted again. Re-pulled rows whose
+ * values are unchanged are left untouched, keeping "updatedAt" meaningful.
+ */
+export async function writeMetricsFacts(
+  provider: Provider,
+  adAccountId: string,
+  facts: FactRow[],
+  onBatch?: (written: number, total: number) => Promise<void>
+): Promise<WriteResult> {
+  let written = 0;
+  let changed = 0;
+  const changedDates = new Set<string>();
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (let i = 0; i < facts.length; i += BATCH_SIZE) {
+        const batch = facts.slice(i, i + BATCH_SIZE);
+
+        const values = batch.map((f) => Prisma.sql`(
+          gen_random_uuid(),
+          ${f.date}::date,
+          ${provider}::"Provider",
+          ${adAccountId},
+          ${f.grain}::"MetricsGrain",
+          ${f.campaignId},
+          ${f.adGroupId},
+          ${f.adId},
+          ${BigInt(f.impressions)},
+          ${BigInt(f.clicks)},
+          ${new Prisma.Decimal(f.cost)},
+          ${new Prisma.Decimal(f.conversions)},
+          ${new Prisma.Decimal(f.conversionValue)},
+          NOW(),
+          NOW()
+        )`);
+
+        const changedRows = await tx.$queryRaw<Array<{ date: string }>>`
+          INSERT INTO metrics_fact (
+            id, date, provider, "adAccountId", grain, "campaignId", "adGroupId", "adId",
+            impressions, clicks, spend, conversions, "conversionValue",
+            "createdAt", "updatedAt"
+          )
+          VALUES ${Prisma.join(values)}
+          ON CONFLICT (date, provider, "adAccountId", "campaignId", "adGroupId", "adId")
+          DO UPDATE SET
+            grain = EXCLUDED.grain,
+            impressions = EXCLUDED.impressions,
+            clicks = EXCLUDED.clicks,
+            spend = EXCLUDED.spend,
+            conversions = EXCLUDED.conversions,
+            "conversionValue" = EXCLUDED."conversionValue",
+            "updatedAt" = NOW()
+          WHERE (
+            metrics_fact.impressions, metrics_fact.clicks, metrics_fact.spend,
+            metrics_fact.conversions, metrics_fact."conversionValue", metrics_fact.grain
+          ) IS DISTINCT FROM (
+            EXCLUDED.impressions, EXCLUDED.clicks, EXCLUDED.spend,
+            EXCLUDED.conversions, EXCLUDED."conversionValue", EXCLUDED.grain
+          )
+          RETURNING to_char(date, 'YYYY-MM-DD') AS date
+        `;
+
+        changed += changedRows.length;
+        for (const row of changedRows) changedDates.add(row.date);
+
+        written += batch.length;
+        if (onBatch) await onBatch(written, facts.length);
+      }
+    },
+    { timeout: 5 * 60 * 1000 }
+  );
+
+  return { written, changed, changedDates: Array.from(changedDates).sort() };
+}
@@ -1,75 +1,145 @@
-import { Queue, QueueScheduler } from 'bullmq';
-import { createBullConnection } from '../lib/redis';
+import { Job } from 'bullmq';
 import prisma from '../lib/prisma';
-import { QUEUE_NAMES, addSyncJob, addDimensionsJob } from '../lib/queue';
-
-const DAILY_SYNC_CRON = '0 6 * * *'; // 6 AM daily
-const INTRADAY_SYNC_CRON = '0 */4 * * *'; // Every 4 hours
+import { getDailySyncWindow, getLocalDate } from '../lib/dates';
+import {
+  ScheduledSyncJobData,
+  addSyncJob,
+  addDimensionsJob,
+  getSchedulerQueue,
+  getSyncQueue,
+  scheduleOrganizationSyncs,
+} from '../lib/queue';
+
+interface FanOutResult {
+  queued: number;
+  failed: number;
+}
 
 /**
- * Initialize the queue scheduler for repeatable jobs
+ * Register the repeatable scheduler jobs for every organization
  */
 export async function initializeScheduler(): Promise<void> {
-  const connection = createBullConnection();
-  
-  const syncQueue = new Queue(QUEUE_NAMES.SYNC, { connection });
-
-  // Remove existing repeatable jobs to update them
-  const repeatableJobs = await syncQueue.getRepeatableJobs();
-  for (const job of repeatableJobs) {
+  // Remove the legacy global job that used to sit on the sync queue
+  const syncQueue = getSyncQueue();
+  for (const job of await syncQueue.getRepeatableJobs()) {
     await syncQueue.removeRepeatableByKey(job.key);
   }
 
-  // Add daily sync job
-  await syncQueue.add(
-    'scheduled_daily_sync',
-    { type: 'scheduled', trigger: 'daily' },
-    {
-      repeat: {
-        pattern: DAILY_SYNC_CRON,
-      },
-      jobId: 'scheduled-daily-sync',
+  // Drop stale schedules (e.g. deleted organizations) before re-registering
+  const schedulerQueue = getSchedulerQueue();
+  for (const job of await schedulerQueue.getRepeatableJobs()) {
+    await schedulerQueue.removeRepeatableByKey(job.key);
+  }
+
+  const organizations = await prisma.organization.findMany({
+    select: { id: true },
+  });
+
+  for (const organization of organizations) {
+    try {
+      await scheduleOrganizationSyncs(organization.id);
+    } catch (error) {
+      console.error(`Failed to schedule syncs for organization ${organization.id}:`, error);
     }
-  );
+  }
 
-  console.log('Scheduler initialized');
-  console.log(`   Daily sync: ${DAILY_SYNC_CRON}`);
+  console.log(`Scheduler initialized for ${organizations.length} organizations`);
 }
 
 /**
- * Trigger daily sync for all enabled accounts
+ * Process a scheduler job - record a run and fan out to per-account sync jobs
  */
-export async function triggerDailySync(): Promise<void> {
-  console.log('Triggering daily sync for all accounts...');
+export async function processScheduledSyncJob(job: Job<ScheduledSyncJobData>): Promise<FanOutResult> {
+  const { organizationId, trigger, timezone } = job.data;
+
+  const run = await prisma.syncRun.create({
+    data: {
+      organizationId,
+      jobType: trigger === 'daily' ? 'DAILY_SYNC' : 'INTRADAY_SYNC',
+      status: 'RUNNING',
+    },
+  });
+
+  try {
+    const result = trigger === 'daily'
+      ? await triggerDailySync(organizationId, run.id, timezone)
+      : await triggerIntradaySync(organizationId, run.id);
+
+    await prisma.syncRun.update({
+      where: { id: run.id },
+      data: {
+        status: result.queued === 0 && result.failed > 0 ? 'FAILED' : 'COMPLETED',
+        accountsQueued: result.queued,
+        accountsFailed: result.failed,
+        completedAt: new Date(),
+      },
+    });
+
+    return result;
+  } catch (error) {
+    await prisma.syncRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'FAILED',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date(),
+      },
+    });
+
+    throw error;
+  }
+}
 
-  const accounts = await prisma.adAccount.findMany({
+/**
+ * Find the accounts a scheduled run should sync
+ */
+function findSchedulableAccounts(organizationId: string, timezone?: string) {
+  return prisma.adAccount.findMany({
     where: {
+      organizationId,
       isEnabled: true,
+      isManager: false,
+      ...(timezone && { timezone }),
       connection: {
         status: 'ACTIVE',
       },
     },
-    include: {
-      connection: true,
-    },
   });
+}
 
-  const today = new Date();
-  const yesterday = new Date(today);
-  yesterday.setDate(yesterday.getDate() - 1);
-
-  const formatDate = (d: Date) => d.toISOString().split('T')[0];
+/**
+ * Trigger daily sync for an organization's enabled accounts, optionally only
+ * those in one timezone. Today and the organization's conversion lookback
+ * window are re-pulled, taken in each account's timezone.
+ */
+export async function triggerDailySync(
+  organizationId: string,
+  syncRunId?: string,
+  timezone?: string
+): Promise<FanOutResult> {
+  const [organization, accounts] = await Promise.all([
+    prisma.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { conversionLookbackDays: true },
+    }),
+    findSchedulableAccounts(organizationId, timezone),
+  ]);
+
+  let failed = 0;
 
   for (const account of accounts) {
     try {
+      const { from, to } = getDailySyncWindow(account.timezone, organization.conversionLookbackDays);
+
       // Create sync job record
       const syncJob = await prisma.syncJob.create({
         data: {
           adAccountId: account.id,
           jobType: 'DAILY_SYNC',
           status: 'PENDING',
-          dateFrom: yesterday,
-          dateTo: today,
+          dateFrom: new Date(from),
+          dateTo: new Date(to),
+          syncRunId,
         },
       });
 
@@ -79,12 +149,11 @@ export async function triggerDailySync(): Promise<void> {
         adAccountId: account.id,
         connectionId: account.connectionId,
         customerId: account.externalId,
-        dateFrom: formatDate(yesterday),
-        dateTo: formatDate(today),
+        dateFrom: from,
+        dateTo: to,
         provider: account.provider,
         organizationId: account.organizationId,
-      }, {
-        jobId: syncJob.id,
+        syncJobId: syncJob.id,
       });
 
       // Also queue dimensions sync
@@ -96,42 +165,40 @@ export async function triggerDailySync(): Promise<void> {
         provider: account.provider,
         organizationId: account.organizationId,
       });
-
-      console.log(`   Queued sync for account: ${account.name}`);
     } catch (error) {
-      console.error(`   Failed to queue sync for ${account.name}:`, error);
+      failed++;
+      console.error(`Failed to queue daily sync for ${account.name}:`, error);
     }
   }
 
-  console.log(`Daily sync triggered for ${accounts.length} accounts`);
+  console.log(`Daily sync queued for ${accounts.length - failed}/${accounts.length} accounts in ${organizationId}`);
+
+  return { queued: accounts.length - failed, failed };
 }
 
 /**
- * Trigger intraday sync for accounts with intraday sync enabled
- * This is for near real-time spend tracking
+ * Trigger intraday sync of today's metrics for near real-time spend tracking
  */
-export async function triggerIntradaySync(): Promise<void> {
-  console.log('Triggering intraday sync...');
-
-  // For now, intraday sync is the same as daily but just for today
-  const accounts = await prisma.adAccount.findMany({
-    where: {
-      isEnabled: true,
-      connection: {
-        status: 'ACTIVE',
-      },
-    },
-    include: {
-      connection: true,
-    },
-  });
+export async function triggerIntradaySync(organizationId: string, syncRunId?: string): Promise<FanOutResult> {
+  const accounts = await findSchedulableAccounts(organizationId);
 
-  const today = new Date();
-  const formatDate = (d: Date) => d.toISOString().split('T')[0];
-  const todayStr = formatDate(today);
+  let failed = 0;
 
   for (const account of accounts) {
     try {
+      const todayStr = getLocalDate(account.timezone);
+
+      const syncJob = await prisma.syncJob.create({
+        data: {
+          adAccountId: account.id,
+          jobType: 'INTRADAY_SYNC',
+          status: 'PENDING',
+          dateFrom: new Date(todayStr),
+          dateTo: new Date(todayStr),
+          syncRunId,
+        },
+      });
+
       await addSyncJob({
         type: 'sync_account_intraday',
         adAccountId: account.id,
@@ -141,15 +208,23 @@ export async function triggerIntradaySync(): Promise<void> {
         dateTo: todayStr,
         provider: account.provider,
         organizationId: account.organizationId,
+        syncJobId: syncJob.id,
       });
     } catch (error) {
+      failed++;
       console.error(`Failed to queue intraday sync for ${account.name}:`, error);
     }
   }
+
+  return { queued: accounts.length - failed, failed };
 }
 
-// If running as main module, start the scheduler
+// If running as main module, register the schedules and exit
 if (require.main === module) {
-  initializeScheduler().catch(console.error);
+  initializeScheduler()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
 }
-
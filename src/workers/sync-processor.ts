@@ -1,38 +1,105 @@
-import { Job } from 'bullmq';
-import { Prisma } from '@prisma/client';
+import { Job, UnrecoverableError } from 'bullmq';
 import prisma from '../lib/prisma';
-import { SyncJobData } from '../lib/queue';
-import { fetchCampaignPerformance, fetchAdGroupPerformance } from '../lib/google-ads';
+import {
+  SyncJobData,
+  clearCancellationRequest,
+  isCancellationRequested,
+  settleAccountSyncStatus,
+  updateBackfillProgress,
+} from '../lib/queue';
+import { getConnector, InsightsLevel } from '../lib/connectors';
+import { classifySyncError, isRetryableFailure } from '../lib/sync-errors';
 import { cache } from '../lib/redis';
+import { resolveDimensions, toFactRows, writeMetricsFacts } from './metrics-writer';
 
 interface SyncResult {
   rowsProcessed: number;
+  rowsChanged: number;
   dateRange: { from: string; to: string };
   duration: number;
+  cancelled?: boolean;
 }
 
 /**
- * Process a sync job - fetch data from Google Ads and store in warehouse
+ * Thrown at a checkpoint once cancellation of the job has been requested
+ */
+class SyncCancelledError extends Error {
+  constructor() {
+    super('Sync cancelled');
+    this.name = 'SyncCancelledError';
+  }
+}
+
+/**
+ * Update the parent backfill when the job is one of its chunks
+ */
+async function refreshBackfillProgress(syncJobId: string): Promise<void> {
+  const chunk = await prisma.syncJob.findUnique({
+    where: { id: syncJobId },
+    select: { parentJobId: true },
+  });
+
+  if (chunk?.parentJobId) {
+    await updateBackfillProgress(chunk.parentJobId);
+  }
+}
+
+/**
+ * Whether a failed ad group or ad level fetch can be skipped. Quota and
+ * credential failures affect the whole account, so the job fails (and is
+ * retried or dead-lettered) instead of completing without that data.
+ */
+function canSkipLevel(error: unknown): boolean {
+  const kind = classifySyncError(error);
+  return kind !== 'QUOTA' && kind !== 'AUTH_EXPIRED' && kind !== 'PERMISSION_DENIED' && kind !== 'ACCOUNT_DISABLED';
+}
+
+/**
+ * Process a sync job - fetch data from the ad platform and store in warehouse
  */
 export async function processSyncJob(job: Job<SyncJobData>): Promise<SyncResult> {
   const startTime = Date.now();
-  const { adAccountId, connectionId, customerId, dateFrom, dateTo, provider } = job.data;
+  const {
+    adAccountId,
+    connectionId,
+    customerId,
+    dateFrom,
+    dateTo,
+    provider,
+    organizationId,
+    syncJobId,
+  } = job.data;
+
+  // Jobs queued before rows were linked by ID cannot be tracked safely
+  if (!syncJobId) {
+    throw new UnrecoverableError('Sync job has no syncJobId');
+  }
+
+  // Checked between fetches and write batches so a cancelled job stops cleanly
+  const throwIfCancelled = async () => {
+    if (await isCancellationRequested(syncJobId)) {
+      throw new SyncCancelledError();
+    }
+  };
 
   try {
-    // Update job status to running
+    const connector = getConnector(provider);
+
+    await throwIfCancelled();
+
+    // Update job status to running. Retries wait in PENDING; a cancelled or
+    // dead-lettered row is never revived here.
     await prisma.syncJob.updateMany({
-      where: {
-        adAccountId,
-        status: 'PENDING',
-        dateFrom: new Date(dateFrom),
-        dateTo: new Date(dateTo),
-      },
+      where: { id: syncJobId, status: 'PENDING' },
       data: {
         status: 'RUNNING',
         startedAt: new Date(),
+        attempts: job.attemptsMade + 1,
       },
     });
 
+    await refreshBackfillProgress(syncJobId);
+
     // Update account status
     await prisma.adAccount.update({
       where: { id: adAccountId },
@@ -40,205 +107,81 @@ export async function processSyncJob(job: Job<SyncJobData>): Promise<SyncResult>
     });
 
     let totalRows = 0;
+    let changed = 0;
+    const changedDates = new Set<string>();
 
-    // Fetch campaign-level metrics
-    const campaignMetrics = await fetchCampaignPerformance(
-      connectionId,
-      customerId,
-      dateFrom,
-      dateTo
-    );
-
-    // Upsert campaign data and metrics
-    for (const metric of campaignMetrics) {
-      // Ensure campaign exists
-      await prisma.campaign.upsert({
-        where: {
-          adAccountId_externalId: {
-            adAccountId,
-            externalId: metric.campaignId,
-          },
-        },
-        create: {
-          adAccountId,
-          externalId: metric.campaignId,
-          name: metric.campaignName,
-          status: 'UNKNOWN',
-        },
-        update: {
-          name: metric.campaignName,
-        },
-      });
+    // Write each batch as it arrives so memory stays flat however large the
+    // account is. Batches are committed independently; a re-run upserts the
+    // same rows, so a job that stops part-way leaves nothing inconsistent.
+    // Progress moves from progressFrom to progressTo over the level.
+    const syncLevel = async (level: InsightsLevel, progressFrom: number, progressTo: number) => {
+      let batches = 0;
 
-      // Get campaign internal ID
-      const campaign = await prisma.campaign.findUnique({
-        where: {
-          adAccountId_externalId: {
-            adAccountId,
-            externalId: metric.campaignId,
-          },
-        },
-      });
+      for await (const rows of connector.streamDailyInsights(connectionId, customerId, level, dateFrom, dateTo)) {
+        await throwIfCancelled();
 
-      if (!campaign) continue;
-
-      // Upsert metrics
-      await prisma.metricsFact.upsert({
-        where: {
-          date_provider_adAccountId_campaignId_adGroupId_adId: {
-            date: new Date(metric.date),
-            provider,
-            adAccountId,
-            campaignId: campaign.id,
-            adGroupId: null,
-            adId: null,
-          },
-        },
-        create: {
-          date: new Date(metric.date),
+        const dimensionIds = await resolveDimensions(adAccountId, rows);
+
+        // Throwing from the batch callback rolls back this write. How many
+        // batches the stream holds is unknown, so each one covers half of
+        // what is left of the level's progress.
+        const result = await writeMetricsFacts(
           provider,
           adAccountId,
-          campaignId: campaign.id,
-          impressions: BigInt(metric.impressions),
-          clicks: BigInt(metric.clicks),
-          spend: new Prisma.Decimal(metric.cost),
-          conversions: new Prisma.Decimal(metric.conversions),
-          conversionValue: new Prisma.Decimal(metric.conversionValue),
-        },
-        update: {
-          impressions: BigInt(metric.impressions),
-          clicks: BigInt(metric.clicks),
-          spend: new Prisma.Decimal(metric.cost),
-          conversions: new Prisma.Decimal(metric.conversions),
-          conversionValue: new Prisma.Decimal(metric.conversionValue),
-        },
-      });
+          toFactRows(rows, dimensionIds),
+          async (written, total) => {
+            await throwIfCancelled();
+            const done = 1 - Math.pow(0.5, batches + written / total);
+            await job.updateProgress(progressFrom + Math.round(done * (progressTo - progressFrom)));
+          }
+        );
+
+        batches++;
+        totalRows += result.written;
+        changed += result.changed;
+        for (const date of result.changedDates) changedDates.add(date);
+      }
+    };
 
-      totalRows++;
-    }
+    // Fetch and write campaign-level metrics
+    await syncLevel('campaign', 0, 40);
+
+    await job.updateProgress(40);
+    await throwIfCancelled();
 
-    // Update progress
-    await job.updateProgress(50);
-
-    // Fetch ad group level metrics
-    try {
-      const adGroupMetrics = await fetchAdGroupPerformance(
-        connectionId,
-        customerId,
-        dateFrom,
-        dateTo
-      );
-
-      for (const metric of adGroupMetrics) {
-        if (!metric.adGroupId) continue;
-
-        // Get campaign internal ID
-        const campaign = await prisma.campaign.findUnique({
-          where: {
-            adAccountId_externalId: {
-              adAccountId,
-              externalId: metric.campaignId,
-            },
-          },
-        });
-
-        if (!campaign) continue;
-
-        // Ensure ad group exists
-        await prisma.adGroup.upsert({
-          where: {
-            adAccountId_externalId: {
-              adAccountId,
-              externalId: metric.adGroupId,
-            },
-          },
-          create: {
-            adAccountId,
-            campaignId: campaign.id,
-            externalId: metric.adGroupId,
-            name: metric.adGroupName || 'Unknown Ad Group',
-            status: 'UNKNOWN',
-          },
-          update: {
-            name: metric.adGroupName || 'Unknown Ad Group',
-          },
-        });
-
-        // Get ad group internal ID
-        const adGroup = await prisma.adGroup.findUnique({
-          where: {
-            adAccountId_externalId: {
-              adAccountId,
-              externalId: metric.adGroupId,
-            },
-          },
-        });
-
-        if (!adGroup) continue;
-
-        // Upsert metrics at ad group level
-        await prisma.metricsFact.upsert({
-          where: {
-            date_provider_adAccountId_campaignId_adGroupId_adId: {
-              date: new Date(metric.date),
-              provider,
-              adAccountId,
-              campaignId: campaign.id,
-              adGroupId: adGroup.id,
-              adId: null,
-            },
-          },
-          create: {
-            date: new Date(metric.date),
-            provider,
-            adAccountId,
-            campaignId: campaign.id,
-            adGroupId: adGroup.id,
-            impressions: BigInt(metric.impressions),
-            clicks: BigInt(metric.clicks),
-            spend: new Prisma.Decimal(metric.cost),
-            conversions: new Prisma.Decimal(metric.conversions),
-            conversionValue: new Prisma.Decimal(metric.conversionValue),
-          },
-          update: {
-            impressions: BigInt(metric.impressions),
-            clicks: BigInt(metric.clicks),
-            spend: new Prisma.Decimal(metric.cost),
-            conversions: new Prisma.Decimal(metric.conversions),
-            conversionValue: new Prisma.Decimal(metric.conversionValue),
-          },
-        });
-
-        totalRows++;
+    // Ad group and ad levels are best-effort
+    for (const [level, progressFrom, progress] of [['adGroup', 40, 70], ['ad', 70, 100]] as const) {
+      try {
+        await syncLevel(level, progressFrom, progress);
+      } catch (err) {
+        if (err instanceof SyncCancelledError || !canSkipLevel(err)) throw err;
+        console.warn(`Failed to fetch ${level} metrics:`, err);
+        // Continue without this level's data
       }
-    } catch (err) {
-      console.warn('Failed to fetch ad group metrics:', err);
-      // Continue without ad group data
-    }
 
-    // Update progress
-    await job.updateProgress(100);
+      await job.updateProgress(progress);
+      await throwIfCancelled();
+    }
 
     const duration = Date.now() - startTime;
 
     // Update job status to completed
     await prisma.syncJob.updateMany({
-      where: {
-        adAccountId,
-        status: 'RUNNING',
-        dateFrom: new Date(dateFrom),
-        dateTo: new Date(dateTo),
-      },
+      where: { id: syncJobId, status: 'RUNNING' },
       data: {
         status: 'COMPLETED',
         completedAt: new Date(),
         metrics: {
           rowsProcessed: totalRows,
+          rowsChanged: changed,
+          changedDates: Array.from(changedDates).sort(),
           durationMs: duration,
         },
       },
     });
 
+    await refreshBackfillProgress(syncJobId);
+
     // Update account status
     await prisma.adAccount.update({
       where: { id: adAccountId },
@@ -248,73 +191,81 @@ export async function processSyncJob(job: Job<SyncJobData>): Promise<SyncResult>
       },
     });
 
-    // Invalidate metrics cache for this account
-    await cache.delPattern(`metrics:*${adAccountId}*`);
+    // Only invalidate cached metrics when a restated row actually changed
+    if (changed > 0) {
+      await cache.delPattern(`metrics:${organizationId}:*`);
+    }
 
     return {
       rowsProcessed: totalRows,
+      rowsChanged: changed,
       dateRange: { from: dateFrom, to: dateTo },
       duration,
     };
   } catch (error) {
+    if (error instanceof SyncCancelledError) {
+      await prisma.syncJob.updateMany({
+        where: { id: syncJobId, status: { in: ['PENDING', 'RUNNING'] } },
+        data: {
+          status: 'CANCELLED',
+          completedAt: new Date(),
+        },
+      });
+
+      await clearCancellationRequest(syncJobId);
+      await refreshBackfillProgress(syncJobId);
+      await settleAccountSyncStatus(adAccountId);
+
+      // Complete rather than fail so BullMQ does not retry
+      return {
+        rowsProcessed: 0,
+        rowsChanged: 0,
+        dateRange: { from: dateFrom, to: dateTo },
+        duration: Date.now() - startTime,
+        cancelled: true,
+      };
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const failureKind = classifySyncError(error);
+    const retryable = isRetryableFailure(failureKind);
+    const willRetry = retryable && job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+
+    if (willRetry) {
+      // Back to pending until BullMQ's backoff re-runs it
+      await prisma.syncJob.updateMany({
+        where: { id: syncJobId, status: { in: ['PENDING', 'RUNNING'] } },
+        data: {
+          status: 'PENDING',
+          errorMessage,
+          failureKind,
+        },
+      });
+
+      throw error;
+    }
 
-    // Update job status to failed
+    // Out of attempts or not worth retrying: dead-letter the job
     await prisma.syncJob.updateMany({
-      where: {
-        adAccountId,
-        status: { in: ['PENDING', 'RUNNING'] },
-        dateFrom: new Date(dateFrom),
-        dateTo: new Date(dateTo),
-      },
+      where: { id: syncJobId, status: { in: ['PENDING', 'RUNNING'] } },
       data: {
         status: 'FAILED',
         completedAt: new Date(),
         errorMessage,
+        failureKind,
+        deadLetteredAt: new Date(),
       },
     });
 
+    await refreshBackfillProgress(syncJobId);
+
     // Update account status
     await prisma.adAccount.update({
       where: { id: adAccountId },
       data: { syncStatus: 'ERROR' },
     });
 
-    throw error;
-  }
-}
-
-/**
- * Split a date range into smaller chunks for large syncs
- */
-export function splitDateRange(
-  startDate: string,
-  endDate: string,
-  maxDaysPerChunk: number = 30
-): Array<{ from: string; to: string }> {
-  const chunks: Array<{ from: string; to: string }> = [];
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-
-  let chunkStart = new Date(start);
-
-  while (chunkStart <= end) {
-    const chunkEnd = new Date(chunkStart);
-    chunkEnd.setDate(chunkEnd.getDate() + maxDaysPerChunk - 1);
-
-    if (chunkEnd > end) {
-      chunkEnd.setTime(end.getTime());
-    }
-
-    chunks.push({
-      from: chunkStart.toISOString().split('T')[0],
-      to: chunkEnd.toISOString().split('T')[0],
-    });
-
-    chunkStart = new Date(chunkEnd);
-    chunkStart.setDate(chunkStart.getDate() + 1);
+    // Stop BullMQ from retrying failures that need intervention
+    throw retryable ? error : new UnrecoverableError(`${failureKind}: ${errorMessage}`);
   }
-
-  return chunks;
 }
-